@@ -0,0 +1,206 @@
+// src/currency.ts
+/* ---------------------------------------
+ * ISO 4217 currencies and exact decimal parsing for money fragments
+ * ------------------------------------- */
+
+/** ISO 4217 code -> number of minor-unit digits */
+export const CURRENCY_MINOR_UNITS = {
+  AED: 2, AFN: 2, ALL: 2, AMD: 2, ANG: 2, AOA: 2, ARS: 2, AUD: 2, AWG: 2, AZN: 2,
+  BAM: 2, BBD: 2, BDT: 2, BGN: 2, BHD: 3, BIF: 0, BMD: 2, BND: 2, BOB: 2, BRL: 2,
+  BSD: 2, BTN: 2, BWP: 2, BYN: 2, BZD: 2,
+  CAD: 2, CDF: 2, CHF: 2, CLF: 4, CLP: 0, CNY: 2, COP: 2, CRC: 2, CUP: 2, CVE: 2,
+  CZK: 2,
+  DJF: 0, DKK: 2, DOP: 2, DZD: 2,
+  EGP: 2, ERN: 2, ETB: 2, EUR: 2,
+  FJD: 2, FKP: 2,
+  GBP: 2, GEL: 2, GHS: 2, GIP: 2, GMD: 2, GNF: 0, GTQ: 2, GYD: 2,
+  HKD: 2, HNL: 2, HTG: 2, HUF: 2,
+  IDR: 2, ILS: 2, INR: 2, IQD: 3, IRR: 2, ISK: 0,
+  JMD: 2, JOD: 3, JPY: 0,
+  KES: 2, KGS: 2, KHR: 2, KMF: 0, KPW: 2, KRW: 0, KWD: 3, KYD: 2, KZT: 2,
+  LAK: 2, LBP: 2, LKR: 2, LRD: 2, LSL: 2, LYD: 3,
+  MAD: 2, MDL: 2, MGA: 2, MKD: 2, MMK: 2, MNT: 2, MOP: 2, MRU: 2, MUR: 2, MVR: 2,
+  MWK: 2, MXN: 2, MYR: 2, MZN: 2,
+  NAD: 2, NGN: 2, NIO: 2, NOK: 2, NPR: 2, NZD: 2,
+  OMR: 3,
+  PAB: 2, PEN: 2, PGK: 2, PHP: 2, PKR: 2, PLN: 2, PYG: 0,
+  QAR: 2,
+  RON: 2, RSD: 2, RUB: 2, RWF: 0,
+  SAR: 2, SBD: 2, SCR: 2, SDG: 2, SEK: 2, SGD: 2, SHP: 2, SLE: 2, SOS: 2, SRD: 2,
+  SSP: 2, STN: 2, SVC: 2, SYP: 2, SZL: 2,
+  THB: 2, TJS: 2, TMT: 2, TND: 3, TOP: 2, TRY: 2, TTD: 2, TWD: 2, TZS: 2,
+  UAH: 2, UGX: 0, USD: 2, UYU: 2, UZS: 2,
+  VES: 2, VND: 0, VUV: 0,
+  WST: 2,
+  XAF: 0, XCD: 2, XOF: 0, XPF: 0,
+  YER: 2,
+  ZAR: 2, ZMW: 2, ZWL: 2,
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCY_MINOR_UNITS;
+
+export const CURRENCY_CODES = Object.keys(CURRENCY_MINOR_UNITS) as CurrencyCode[];
+
+export const isCurrencyCode = (code: string): code is CurrencyCode =>
+  Object.prototype.hasOwnProperty.call(CURRENCY_MINOR_UNITS, code);
+
+/* ---------------------------------------
+ * Exact decimal parsing
+ * ------------------------------------- */
+
+/**
+ * "half-up" / "half-down" break ties away from / towards zero,
+ * "up" / "down" round away from / towards zero.
+ */
+export type RoundingMode =
+  | "half-up"
+  | "half-down"
+  | "half-even"
+  | "up"
+  | "down"
+  | "ceil"
+  | "floor";
+
+export interface ParseAmountOptions {
+  minorUnits: number;
+  rounding?: RoundingMode;
+  /** Decimal separator of locale-formatted input (default ".") */
+  decimalSeparator?: "." | ",";
+  /** Currency expected in the input; a different code or symbol in the text is rejected */
+  currency?: string;
+}
+
+/** Currency symbol -> the codes it stands for; "$" and "¥" are shared */
+export const CURRENCY_SYMBOLS: Readonly<Record<string, readonly CurrencyCode[]>> = {
+  "₹": ["INR"],
+  $: ["USD", "AUD", "CAD", "NZD", "SGD", "HKD", "MXN"],
+  "€": ["EUR"],
+  "£": ["GBP"],
+  "¥": ["JPY", "CNY"],
+  "₩": ["KRW"],
+  "₽": ["RUB"],
+  "₺": ["TRY"],
+  "₫": ["VND"],
+  "₱": ["PHP"],
+  "₪": ["ILS"],
+  "฿": ["THB"],
+  "₦": ["NGN"],
+  "₴": ["UAH"],
+  "৳": ["BDT"],
+};
+
+const INDIAN_GROUPING = /^\d{1,2}(?:,\d{2})*,\d{3}$/;
+const WESTERN_GROUPING = /^\d{1,3}(?:,\d{3})+$/;
+
+/** "₹1,23,456.78" -> "123456.78"; undefined when the text is not an amount */
+const normalizeAmountText = (
+  raw: string,
+  decimalSeparator: "." | ",",
+  currency?: string
+): string | undefined => {
+  let text = raw.replace(/\s/g, "").replace(/Rs\.?/i, "INR");
+  const code = /^[+-]?([A-Za-z]{3})|([A-Za-z]{3})$/.exec(text);
+  if (code && currency && (code[1] || code[2]).toUpperCase() !== currency) return undefined;
+  // like codes, a symbol of another currency ("$100" for INR) is not silently dropped
+  const symbols = text.match(/\p{Sc}/gu) ?? [];
+  if (currency && symbols.some((symbol) => !CURRENCY_SYMBOLS[symbol]?.includes(currency as CurrencyCode)))
+    return undefined;
+  text = text
+    .replace(/^([+-]?)[A-Za-z]{3}|[A-Za-z]{3}$/, "$1")
+    .replace(/\p{Sc}/gu, "")
+    .replace(/'/g, "");
+
+  const group = decimalSeparator === "." ? "," : ".";
+  const [sign, body] = /^[+-]/.test(text) ? [text[0], text.slice(1)] : ["", text];
+  const [intPart, ...rest] = body.split(decimalSeparator);
+  if (rest.length > 1) return undefined;
+  if (intPart.includes(group)) {
+    const grouped = intPart.split(group).join(",");
+    if (!INDIAN_GROUPING.test(grouped) && !WESTERN_GROUPING.test(grouped)) return undefined;
+  }
+  const plain = intPart.split(group).join("");
+  return rest.length ? `${sign}${plain}.${rest[0]}` : `${sign}${plain}`;
+};
+
+const shouldIncrement = (
+  mode: RoundingMode,
+  negative: boolean,
+  lastKept: number,
+  rest: string
+) => {
+  if (!/[1-9]/.test(rest)) return false;
+  const first = Number(rest[0]);
+  const afterFirst = /[1-9]/.test(rest.slice(1));
+  const aboveHalf = first > 5 || (first === 5 && afterFirst);
+  const exactlyHalf = first === 5 && !afterFirst;
+  switch (mode) {
+    case "up":
+      return true;
+    case "down":
+      return false;
+    case "ceil":
+      return !negative;
+    case "floor":
+      return negative;
+    case "half-up":
+      return aboveHalf || exactlyHalf;
+    case "half-down":
+      return aboveHalf;
+    case "half-even":
+      return aboveHalf || (exactlyHalf && lastKept % 2 === 1);
+  }
+};
+
+// Number.MAX_SAFE_INTEGER has 16 digits
+const MAX_SAFE_DIGITS = 16;
+
+/**
+ * Parse a decimal string or number into integer minor units without a
+ * floating-point step. Returns undefined for malformed or unsafe amounts.
+ */
+export const parseAmount = (
+  input: string | number,
+  options: ParseAmountOptions
+): number | undefined => {
+  const { minorUnits, rounding = "half-up", decimalSeparator = "." } = options;
+  let text: string | undefined;
+  if (typeof input === "number") {
+    if (!Number.isFinite(input)) return undefined;
+    text = String(input);
+  } else {
+    text = normalizeAmountText(input, decimalSeparator, options.currency);
+  }
+  const match = text && /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (match[2] === "" && !match[3])) return undefined;
+
+  const negative = match[1] === "-";
+  const exponent = Number(match[4] || 0);
+  let digits = match[2] + (match[3] || "");
+  let point = match[2].length + exponent;
+  // bound the exponent before padding: "1e9999999999" must not allocate
+  const significant = digits.search(/[1-9]/);
+  if (significant === -1) return 0;
+  if (point - significant + minorUnits > MAX_SAFE_DIGITS) return undefined;
+  // far below the minor unit only "is there anything left" matters for rounding
+  point = Math.max(point, -(minorUnits + 1));
+  if (point < 0) {
+    digits = "0".repeat(-point) + digits;
+    point = 0;
+  }
+  digits = digits.padEnd(point + minorUnits, "0");
+
+  const kept = digits.slice(0, point + minorUnits) || "0";
+  const rest = digits.slice(point + minorUnits);
+  let minor = Number(kept);
+  if (shouldIncrement(rounding, negative, Number(kept[kept.length - 1]), rest)) minor += 1;
+  if (!Number.isSafeInteger(minor)) return undefined;
+  return negative && minor !== 0 ? -minor : minor;
+};
+
+/** 12345 with 2 minor units -> "123.45" */
+export const formatMinor = (minor: number, minorUnits: number): string => {
+  const sign = minor < 0 ? "-" : "";
+  const digits = String(Math.abs(minor)).padStart(minorUnits + 1, "0");
+  if (!minorUnits) return sign + digits;
+  return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+};
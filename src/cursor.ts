@@ -0,0 +1,175 @@
+// src/cursor.ts
+import { z } from "zod";
+import { translate, fragmentErrorMap } from "./i18n";
+import { withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Opaque cursors: base64url(JSON) [+ "." + HMAC-SHA256 signature]
+ * ------------------------------------- */
+
+// Loaded on first use so bundles that never sign cursors can stub out "crypto"
+const nodeCrypto = (): typeof import("crypto") => require("crypto");
+
+export interface CursorSigningOptions {
+  /**
+   * HMAC key. When set, cursors are signed and unsigned or tampered cursors
+   * are rejected. Pass an array to rotate keys: the first one signs.
+   */
+  secret?: string | Buffer | readonly (string | Buffer)[];
+}
+
+export interface EncodeCursorOptions extends CursorSigningOptions {
+  /** Lifetime in seconds */
+  expiresIn?: number;
+}
+
+export type CursorDecodeResult =
+  | { success: true; data: unknown }
+  | { success: false; reason: "format" | "signature" | "expired" };
+
+interface CursorEnvelope {
+  d: unknown;
+  exp?: number;
+}
+
+const toBase64Url = (value: string | Buffer) =>
+  Buffer.from(value)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8");
+
+const secrets = (secret: CursorSigningOptions["secret"]) =>
+  secret === undefined ? [] : Array.isArray(secret) ? secret : [secret as string | Buffer];
+
+const sign = (payload: string, secret: string | Buffer) =>
+  toBase64Url(nodeCrypto().createHmac("sha256", secret).update(payload).digest());
+
+const verify = (payload: string, signature: string, secret: CursorSigningOptions["secret"]) =>
+  secrets(secret).some((key) => {
+    const expected = Buffer.from(sign(payload, key));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && nodeCrypto().timingSafeEqual(expected, actual);
+  });
+
+export const encodeCursor = (data: unknown, options: EncodeCursorOptions = {}): string => {
+  const envelope: CursorEnvelope = { d: data };
+  if (options.expiresIn !== undefined)
+    envelope.exp = Math.floor(Date.now() / 1000) + options.expiresIn;
+  const payload = toBase64Url(JSON.stringify(envelope));
+  const [key] = secrets(options.secret);
+  return key === undefined ? payload : `${payload}.${sign(payload, key)}`;
+};
+
+/** Decode without validating the payload shape */
+export const decodeCursor = (
+  cursor: string,
+  options: CursorSigningOptions = {}
+): CursorDecodeResult => {
+  const [payload, signature, ...extra] = cursor.split(".");
+  if (!payload || extra.length || !/^[A-Za-z0-9_-]+$/.test(payload))
+    return { success: false, reason: "format" };
+  if (options.secret !== undefined && !(signature && verify(payload, signature, options.secret)))
+    return { success: false, reason: "signature" };
+
+  let envelope: CursorEnvelope;
+  try {
+    envelope = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return { success: false, reason: "format" };
+  }
+  if (!envelope || typeof envelope !== "object" || !("d" in envelope))
+    return { success: false, reason: "format" };
+  if (envelope.exp !== undefined && envelope.exp * 1000 <= Date.now())
+    return { success: false, reason: "expired" };
+  return { success: true, data: envelope.d };
+};
+
+/* ---------------------------------------
+ * Fragments
+ * ------------------------------------- */
+
+/** Opaque cursor string decoded into `z.object(shape)` output */
+const ENCODER_KEY = "zodFragmentCursorEncoder";
+
+type CursorEncoder = (data: unknown, options?: Omit<EncodeCursorOptions, "secret">) => string;
+
+export const cursor = <T extends z.ZodRawShape>(
+  shape: T,
+  label = "Cursor",
+  options: CursorSigningOptions = {}
+) => {
+  const payloadSchema = z.object(shape);
+  const schema = z
+    .string({
+      errorMap: fragmentErrorMap({
+        invalid: () => translate("string", { label }),
+      }),
+    })
+    .transform((value, ctx): z.output<typeof payloadSchema> => {
+      const fail = (reason: string) => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: translate(reason === "expired" ? "cursorExpired" : "cursor", { label }),
+          params: { code: `cursor.${reason}` },
+        });
+        return z.NEVER;
+      };
+      const decoded = decodeCursor(value, options);
+      if (!decoded.success) return fail(decoded.reason);
+      const parsed = payloadSchema.safeParse(decoded.data);
+      return parsed.success ? parsed.data : fail("shape");
+    });
+  // an encoder on the _def rather than the options in the metadata, so the secret never shows up
+  const encoder: CursorEncoder = (data, encodeOptions) =>
+    encodeCursor(data, { ...encodeOptions, secret: options.secret });
+  (schema._def as unknown as Record<string, unknown>)[ENCODER_KEY] = encoder;
+  return withMeta(schema, {
+    kind: "cursor",
+    label,
+    constraints: { shape, signed: options.secret !== undefined },
+    jsonSchema: { pattern: "^[A-Za-z0-9_-]+(\\.[A-Za-z0-9_-]+)?$" },
+  });
+};
+
+/** Encode `data` with the signing options of a `cursor(...)` schema, or a schema wrapping one */
+export const encodeCursorFor = (
+  schema: z.ZodTypeAny,
+  data: unknown,
+  options: Omit<EncodeCursorOptions, "secret"> = {}
+): string => {
+  for (let current: z.ZodTypeAny | undefined = schema; current; ) {
+    const def = current._def as Record<string, unknown>;
+    const encoder = def[ENCODER_KEY] as CursorEncoder | undefined;
+    if (encoder) return encoder(data, options);
+    current = (def.schema ?? def.innerType) as z.ZodTypeAny | undefined;
+  }
+  return encodeCursor(data, options);
+};
+
+export interface CursorPaginationOptions extends CursorSigningOptions {
+  label?: string;
+  maxLimit?: number;
+  defaultLimit?: number;
+}
+
+/** `{ cursor?, limit }` with a typed, optionally signed cursor */
+export const buildCursorPagination = <T extends z.ZodRawShape>(
+  cursorShape: T,
+  options: CursorPaginationOptions = {}
+) =>
+  withMeta(
+    z.object({
+      cursor: cursor(cursorShape, options.label, options).optional(),
+      limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(options.maxLimit ?? 200)
+        .default(options.defaultLimit ?? 20),
+    }),
+    { kind: "cursorPagination", constraints: { maxLimit: options.maxLimit ?? 200 } }
+  );
@@ -0,0 +1,267 @@
+// src/dates.ts
+/* ---------------------------------------
+ * Strict ISO 8601 parsing, IANA time zones and relative bounds
+ * for the date fragments. No Date.parse on user input.
+ * ------------------------------------- */
+
+/** Absolute (`Date`, epoch ms, ISO string) or relative ("now", "today", "+30d", "-18y") */
+export type DateBound = Date | number | string;
+
+export type DurationUnit = "s" | "min" | "h" | "d" | "w" | "mo" | "y";
+
+export interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+const DURATION = /^([+-]?)(\d+)(s|min|h|d|w|mo|y)$/;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+const UNIT_MS: Partial<Record<DurationUnit, number>> = {
+  s: 1000,
+  min: 60000,
+  h: 3600000,
+  d: 86400000,
+  w: 604800000,
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+/** "+30d" -> { amount: 30, unit: "d" }; "-18y" -> { amount: -18, unit: "y" } */
+export const parseDuration = (text: string): Duration | undefined => {
+  const match = DURATION.exec(text.trim());
+  if (!match) return undefined;
+  const amount = Number(match[2]) * (match[1] === "-" ? -1 : 1);
+  return { amount, unit: match[3] as DurationUnit };
+};
+
+/** Shift an instant; months and years follow the UTC calendar */
+export const addDuration = (epoch: number, { amount, unit }: Duration): number => {
+  const ms = UNIT_MS[unit];
+  if (ms) return epoch + amount * ms;
+  const date = new Date(epoch);
+  date.setUTCMonth(date.getUTCMonth() + amount * (unit === "y" ? 12 : 1));
+  return date.getTime();
+};
+
+/* ---------------------------------------
+ * Time zones (Intl, no bundled tz database)
+ * ------------------------------------- */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // throws a RangeError for unknown zones
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const assertTimeZone = (timeZone: string) => {
+  if (!isTimeZone(timeZone)) throw new RangeError(`Unknown time zone: ${timeZone}`);
+  return timeZone;
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const zonedParts = (epoch: number, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(new Date(epoch)))
+    if (type !== "literal") parts[type] = Number(value);
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24, // some engines print midnight as "24"
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/** Offset of `timeZone` from UTC at `epoch`, in minutes */
+export const timeZoneOffset = (epoch: number, timeZone: string): number => {
+  const p = zonedParts(epoch, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(epoch / 1000) * 1000) / 60000);
+};
+
+/** Wall-clock time in `timeZone` -> epoch ms (gaps resolve forward) */
+export const zonedTimeToEpoch = (localAsUtc: number, timeZone: string): number => {
+  const first = localAsUtc - timeZoneOffset(localAsUtc, timeZone) * 60000;
+  const second = localAsUtc - timeZoneOffset(first, timeZone) * 60000;
+  return first === second ? first : Math.max(first, second);
+};
+
+const formatOffset = (minutes: number) => {
+  if (minutes === 0) return "Z";
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+/** "YYYY-MM-DD" of an instant in `timeZone` */
+export const dateIn = (epoch: number, timeZone: string): string => {
+  const p = zonedParts(epoch, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+/* ---------------------------------------
+ * Strict parsers
+ * ------------------------------------- */
+
+/** UTC midnight of a calendar date, or undefined when it doesn't exist */
+export const parseIsoDate = (input: string): number | undefined => {
+  const match = DATE.exec(input);
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const epoch = Date.UTC(year, month - 1, day);
+  const check = new Date(epoch);
+  return check.getUTCFullYear() === year &&
+    check.getUTCMonth() === month - 1 &&
+    check.getUTCDate() === day
+    ? epoch
+    : undefined;
+};
+
+export interface ParsedDateTime {
+  epoch: number;
+  /** Normalized "YYYY-MM-DDTHH:mm:ss[.fff](Z|±HH:mm)" */
+  iso: string;
+}
+
+/**
+ * "2024-05-01T10:30:00+05:30" / "...Z". Strings without an offset are
+ * only accepted with `timeZone`, and are read as wall-clock time there.
+ */
+export const parseIsoDateTime = (
+  input: string,
+  timeZone?: string
+): ParsedDateTime | undefined => {
+  const match = DATE_TIME.exec(input);
+  if (!match) return undefined;
+  const [, date, hh, mi, ss = "00", fraction, offset] = match;
+  const day = parseIsoDate(date);
+  const [hour, minute, second] = [hh, mi, ss].map(Number);
+  if (day === undefined || hour > 23 || minute > 59 || second > 59) return undefined;
+  if (!offset && !timeZone) return undefined;
+
+  const ms = fraction ? Number(fraction.slice(0, 3).padEnd(3, "0")) : 0;
+  const local = day + ((hour * 60 + minute) * 60 + second) * 1000 + ms;
+  let offsetMinutes: number;
+  let epoch: number;
+  if (offset) {
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.replace(/[^\d]/g, "");
+    const [oh, om] = [Number(digits.slice(0, 2)), Number(digits.slice(2, 4) || 0)];
+    if (oh > 23 || om > 59) return undefined;
+    offsetMinutes = offset.toUpperCase() === "Z" ? 0 : sign * (oh * 60 + om);
+    epoch = local - offsetMinutes * 60000;
+  } else {
+    epoch = zonedTimeToEpoch(local, timeZone as string);
+    offsetMinutes = timeZoneOffset(epoch, timeZone as string);
+  }
+  const time = `${hh}:${mi}:${ss}${fraction ? `.${fraction}` : ""}`;
+  return { epoch, iso: `${date}T${time}${formatOffset(offsetMinutes)}` };
+};
+
+/** "HH:mm[:ss[.fff]]" -> seconds since midnight */
+export const parseTimeOfDay = (input: string): number | undefined => {
+  const match = TIME.exec(input);
+  if (!match) return undefined;
+  const [hour, minute, second] = match.slice(1, 4).map((v) => Number(v || 0));
+  if (hour > 23 || minute > 59 || second > 59) return undefined;
+  return hour * 3600 + minute * 60 + second + (match[4] ? Number(`0.${match[4]}`) : 0);
+};
+
+export const formatTimeOfDay = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const [h, m, s] = [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60];
+  return `${pad(h)}:${pad(m)}${s ? `:${pad(s)}` : ""}`;
+};
+
+/* ---------------------------------------
+ * Bound resolution
+ * Relative bounds are resolved on every parse, so "now" stays current.
+ * Each resolver throws at build time for a bound it can't read.
+ * ------------------------------------- */
+const invalidBound = (bound: DateBound): never => {
+  throw new RangeError(`Invalid date bound: ${String(bound)}`);
+};
+
+const checked = <T>(resolve: () => T) => {
+  resolve();
+  return resolve;
+};
+
+/** Bound as a "YYYY-MM-DD" calendar date in `timeZone` */
+export const dateBound = (bound: DateBound, timeZone: string) =>
+  checked((): string => {
+    if (bound instanceof Date || typeof bound === "number")
+      return dateIn(new Date(bound).getTime(), timeZone);
+    if (bound === "now" || bound === "today") return dateIn(Date.now(), timeZone);
+    const duration = parseDuration(bound);
+    if (duration) {
+      const today = parseIsoDate(dateIn(Date.now(), timeZone)) as number;
+      return dateIn(addDuration(today, duration), "UTC");
+    }
+    if (parseIsoDate(bound) !== undefined) return bound;
+    const dateTime = parseIsoDateTime(bound, timeZone);
+    return dateTime ? dateIn(dateTime.epoch, timeZone) : invalidBound(bound);
+  });
+
+/** Bound as an instant (epoch ms) */
+export const instantBound = (bound: DateBound, timeZone: string) =>
+  checked((): number => {
+    if (bound instanceof Date || typeof bound === "number") return new Date(bound).getTime();
+    if (bound === "now") return Date.now();
+    const duration = parseDuration(bound);
+    if (duration) return addDuration(Date.now(), duration);
+    const day = bound === "today" ? parseIsoDate(dateIn(Date.now(), timeZone)) : parseIsoDate(bound);
+    if (day !== undefined) return zonedTimeToEpoch(day, timeZone);
+    return parseIsoDateTime(bound, timeZone)?.epoch ?? invalidBound(bound);
+  });
+
+/** Bound as seconds since midnight in `timeZone` */
+export const timeOfDayBound = (bound: DateBound, timeZone: string) =>
+  checked((): number => {
+    const nowSeconds = (epoch: number) => {
+      const p = zonedParts(epoch, timeZone);
+      return p.hour * 3600 + p.minute * 60 + p.second;
+    };
+    if (bound instanceof Date || typeof bound === "number")
+      return nowSeconds(new Date(bound).getTime());
+    if (bound === "now") return nowSeconds(Date.now());
+    const duration = parseDuration(bound);
+    if (duration && ["s", "min", "h"].includes(duration.unit))
+      return nowSeconds(addDuration(Date.now(), duration));
+    return parseTimeOfDay(bound) ?? invalidBound(bound);
+  });
@@ -0,0 +1,247 @@
+// src/errors.ts
+import { z } from "zod";
+
+/* ---------------------------------------
+ * Machine codes
+ * Fragments tag their custom issues with `params.code`
+ * (e.g. "pin_code.format") and built-in checks with `withIssueCode`;
+ * plain Zod issues get a derived code.
+ * ------------------------------------- */
+/** Refine message builder that also tags the issue with a machine code */
+export const tagged =
+  (code: string, message: () => string, params: Record<string, unknown> = {}) =>
+  () => ({ message: message(), params: { ...params, code } });
+
+const CODE_KEY = "zodFragmentCode";
+
+// failures of built-in checks (`.uuid()`, `.regex()`, enum options) that a fragment owns
+const CODED_ISSUES: string[] = [z.ZodIssueCode.invalid_string, z.ZodIssueCode.invalid_enum_value];
+
+interface CodedDef {
+  [CODE_KEY]: string;
+  /** String check kinds present when the code was attached; later `.email()` etc. keep their own codes */
+  zodFragmentCodeChecks?: string[];
+}
+
+// re-raise the issues `parse` adds to the parse's issue list as custom issues carrying the code
+const coded = <R>(schema: z.ZodTypeAny, input: z.ParseInput, parse: () => R): R => {
+  const { [CODE_KEY]: code, zodFragmentCodeChecks: checks } = schema._def as CodedDef;
+  const { issues } = input.parent.common;
+  const from = issues.length;
+  const result = parse();
+  for (let i = from; i < issues.length; i++) {
+    const issue = issues[i];
+    if (!CODED_ISSUES.includes(issue.code)) continue;
+    if (checks && issue.code === z.ZodIssueCode.invalid_string && !checks.includes(String(issue.validation)))
+      continue;
+    issues[i] = { code: z.ZodIssueCode.custom, path: issue.path, message: issue.message, params: { code } };
+  }
+  return result;
+};
+
+// the code lives on `_def`; the overrides below keep the class when a check is chained
+class CodedString extends z.ZodString {
+  _parse(input: z.ParseInput): z.ParseReturnType<string> {
+    return coded(this, input, () => super._parse(input));
+  }
+
+  _addCheck(check: z.ZodStringCheck): z.ZodString {
+    return new CodedString(super._addCheck(check)._def);
+  }
+
+  trim(): z.ZodString {
+    return new CodedString(super.trim()._def);
+  }
+
+  toLowerCase(): z.ZodString {
+    return new CodedString(super.toLowerCase()._def);
+  }
+
+  toUpperCase(): z.ZodString {
+    return new CodedString(super.toUpperCase()._def);
+  }
+}
+
+class CodedEnum<T extends [string, ...string[]]> extends z.ZodEnum<T> {
+  _parse(input: z.ParseInput): z.ParseReturnType<T[number]> {
+    return coded(this, input, () => super._parse(input));
+  }
+
+  // Zod builds these from the values alone; keep the messages and the code
+  extract<E extends readonly [T[number], ...T[number][]]>(values: E): z.ZodEnum<z.Writeable<E>> {
+    const def = { ...this._def, values: super.extract(values).options };
+    return new CodedEnum(def as unknown as z.ZodEnumDef<z.Writeable<E>>);
+  }
+
+  exclude<E extends readonly [T[number], ...T[number][]]>(
+    values: E
+  ): ReturnType<z.ZodEnum<T>["exclude"]> {
+    const def = { ...this._def, values: super.exclude(values).options };
+    return new CodedEnum(def) as unknown as ReturnType<z.ZodEnum<T>["exclude"]>;
+  }
+}
+
+/**
+ * Tag the format / option failures of a string or enum fragment with
+ * `code`, e.g. `withIssueCode(z.string().uuid(), "uuid.format")`.
+ * Missing and wrong-type input keep `required` / `string.type`, and
+ * chained checks (`uuid().min(1)`, `.extract([...])`) keep the code.
+ */
+export const withIssueCode = <S extends z.ZodTypeAny>(schema: S, code: string): S => {
+  const def = { ...schema._def, [CODE_KEY]: code };
+  if (schema instanceof z.ZodEnum) return new CodedEnum(def as z.ZodEnumDef) as unknown as S;
+  if (schema instanceof z.ZodString) {
+    const checks = schema._def.checks.map((check: z.ZodStringCheck) => check.kind);
+    return new CodedString({ ...def, zodFragmentCodeChecks: checks } as z.ZodStringDef) as unknown as S;
+  }
+  throw new TypeError("withIssueCode takes a z.string() or z.enum() schema");
+};
+
+export const issueCode = (issue: z.ZodIssue): string => {
+  switch (issue.code) {
+    case z.ZodIssueCode.custom:
+      return typeof issue.params?.code === "string" ? issue.params.code : "custom";
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === z.ZodParsedType.undefined) return "required";
+      return /^[a-z]+$/.test(issue.expected)
+        ? `${issue.expected}.type`
+        : "invalid_type";
+    case z.ZodIssueCode.too_small:
+      return `${issue.type}.min`;
+    case z.ZodIssueCode.too_big:
+      return `${issue.type}.max`;
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === "regex") return "string.pattern";
+      return typeof issue.validation === "string"
+        ? `${issue.validation}.format`
+        : "string.format";
+    case z.ZodIssueCode.invalid_enum_value:
+      return "enum.invalid";
+    case z.ZodIssueCode.invalid_union:
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return "union.invalid";
+    default:
+      return issue.code;
+  }
+};
+
+/* ---------------------------------------
+ * Formatters
+ * ------------------------------------- */
+export const ROOT_ERROR_KEY = "_root";
+
+export interface FormattedIssue {
+  /** Dotted path, e.g. "address.pin" ("_root" for object-level issues) */
+  field: string;
+  path: (string | number)[];
+  code: string;
+  message: string;
+}
+
+export interface FormatOptions {
+  /** Keep only the first issue */
+  firstOnly?: boolean;
+}
+
+export const issuePath = (path: (string | number)[]) =>
+  path.length ? path.join(".") : ROOT_ERROR_KEY;
+
+export const formatIssues = (
+  error: z.ZodError,
+  options: FormatOptions = {}
+): FormattedIssue[] => {
+  const issues = options.firstOnly ? error.issues.slice(0, 1) : error.issues;
+  return issues.map((issue) => ({
+    field: issuePath(issue.path),
+    path: issue.path,
+    code: issueCode(issue),
+    message: issue.message,
+  }));
+};
+
+export const firstError = (error: z.ZodError): FormattedIssue | undefined =>
+  formatIssues(error, { firstOnly: true })[0];
+
+/** `{ "address.pin": "PIN Code must be 6 digits" }` (first message per field) */
+export const flattenErrors = (
+  error: z.ZodError,
+  options: FormatOptions = {}
+): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const issue of formatIssues(error, options)) {
+    if (!(issue.field in result)) result[issue.field] = issue.message;
+  }
+  return result;
+};
+
+export type NestedErrors = { [key: string]: string | NestedErrors | NestedErrors[] };
+
+/** `{ address: { pin: "PIN Code must be 6 digits" } }`, arrays for numeric segments */
+export const nestErrors = (
+  error: z.ZodError,
+  options: FormatOptions = {}
+): NestedErrors => {
+  const result: NestedErrors = {};
+  for (const issue of formatIssues(error, options)) {
+    const path = issue.path.length ? issue.path : [ROOT_ERROR_KEY];
+    // arrays are indexed the same way at runtime
+    let node = result as Record<string | number, unknown>;
+    path.forEach((segment, i) => {
+      if (i === path.length - 1) {
+        if (node[segment] === undefined) node[segment] = issue.message;
+        return;
+      }
+      if (typeof node[segment] !== "object" || node[segment] === null) {
+        node[segment] = typeof path[i + 1] === "number" ? [] : {};
+      }
+      node = node[segment] as Record<string | number, unknown>;
+    });
+  }
+  return result;
+};
+
+/* ---------------------------------------
+ * RFC 7807 problem details
+ * ------------------------------------- */
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+export interface ProblemDetailsOptions extends FormatOptions {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+}
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors: (FormattedIssue & { pointer: string })[];
+}
+
+const toPointer = (path: (string | number)[]) =>
+  "/" +
+  path.map((s) => String(s).replace(/~/g, "~0").replace(/\//g, "~1")).join("/");
+
+export const toProblemDetails = (
+  error: z.ZodError,
+  options: ProblemDetailsOptions = {}
+): ProblemDetails => {
+  const errors = formatIssues(error, options).map((issue) => ({
+    ...issue,
+    pointer: issue.path.length ? toPointer(issue.path) : "",
+  }));
+  return {
+    type: options.type ?? "about:blank",
+    title: options.title ?? "Validation failed",
+    status: options.status ?? 400,
+    detail:
+      options.detail ??
+      (errors.length === 1 ? errors[0].message : `${errors.length} validation errors`),
+    ...(options.instance ? { instance: options.instance } : {}),
+    errors,
+  };
+};
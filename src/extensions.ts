@@ -1,7 +1,6 @@
 // src/extensions.ts
 import { z } from "zod";
 import {
-  FIELD_ERRORS,
   CustomMessages,
   requiredString,
   optionalNumber,
@@ -9,6 +8,66 @@ import {
   Enum,
   emailOrMobile as emailOrMobileBase,
 } from "./index";
+import { MessageKey, MessageParams, translate, fragmentErrorMap } from "./i18n";
+import { tagged, withIssueCode } from "./errors";
+import { withMeta } from "./meta";
+import { withLookups } from "./lookup";
+import {
+  CURRENCY_MINOR_UNITS,
+  CurrencyCode,
+  RoundingMode,
+  formatMinor,
+  isCurrencyCode,
+  parseAmount,
+} from "./currency";
+import {
+  AADHAAR_PATTERN,
+  CIN_PATTERN,
+  CinDetails,
+  GST_STATE_CODES,
+  GSTIN_PATTERN,
+  GstinDetails,
+  IFSC_PATTERN,
+  IN_STATES,
+  IN_STATE_NAMES,
+  IfscDetails,
+  PAN_PATTERN,
+  PanDetails,
+  TAN_PATTERN,
+  UPI_ID_PATTERN,
+  decodeCin,
+  decodeGstin,
+  decodeIfsc,
+  decodePan,
+  findInState,
+  gstinCheckDigit,
+  isVerhoeffValid,
+  maskAadhaar,
+  pinStates,
+} from "./india";
+import {
+  PHONE_COUNTRY_CODES,
+  ParsePhoneOptions,
+  PhoneCountry,
+  PhoneDetails,
+  parsePhone,
+} from "./phone";
+import {
+  DateBound,
+  addDuration,
+  assertTimeZone,
+  dateBound,
+  formatTimeOfDay,
+  instantBound,
+  parseDuration,
+  parseIsoDate,
+  parseIsoDateTime,
+  parseTimeOfDay,
+  timeOfDayBound,
+  zonedTimeToEpoch,
+} from "./dates";
+import { optionalPlainText, plainText } from "./sanitize";
+import { DomainDetails, UrlParseResult, UrlPolicy, parseDomain, parseUrl } from "./url";
 
 /* ---------------------------------------
  * tiny local helpers
@@ -24,6 +83,43 @@ const coerceBoolean = () =>
     return v;
   }, z.boolean());
 
+const toMessages = (msg?: CustomMessages | string): CustomMessages =>
+  typeof msg === "string"
+    ? { required: msg, invalid: msg, validation: msg }
+    : msg || {};
+
+/** Required string whose later checks (.regex/.url/.max) report `key` */
+const formatString = (
+  label: string,
+  msg: CustomMessages | string | undefined,
+  key: MessageKey
+) => {
+  const messages = toMessages(msg);
+  const schema = z
+    .string({
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+        validation: (issue) => {
+          if (issue.code === z.ZodIssueCode.too_small)
+            return (
+              messages.validation ||
+              messages.required ||
+              translate("required", { label })
+            );
+          if (issue.code === z.ZodIssueCode.too_big)
+            return (
+              messages.validation ||
+              translate("maxLength", { label, max: Number(issue.maximum) })
+            );
+          return messages.validation || translate(key, { label });
+        },
+      }),
+    })
+    .min(1);
+  return withMeta(schema, { kind: "requiredString", label, messages: msg });
+};
+
 /* ---------------------------------------
  * Normalized / Coercion variants (optional)
  * NOTE: when you need .max/.regex (string-only),
@@ -35,66 +131,104 @@ export const requiredStringTrimmed = (
   label = "This field",
   msg?: CustomMessages | string
 ) =>
-  requiredString(label, msg)
-    // do validations here while still ZodString
-    // then normalize at the end
-    .transform((v) => v.trim());
+  withMeta(
+    requiredString(label, msg)
+      // do validations here while still ZodString
+      // then normalize at the end
+      .transform((v) => v.trim()),
+    { kind: "requiredStringTrimmed", label, messages: msg, normalize: ["trim"] }
+  );
 
 // Lowercased, trimmed email (normalized)
 export const emailNormalized = (
   label = "Email",
   msg?: CustomMessages | string
 ) =>
-  requiredString(label, msg)
-    .transform((v) => v.trim().toLowerCase())
-    .refine((v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v), {
-      message: typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.EMAIL}`,
-    });
+  withLookups(
+    withMeta(
+      requiredString(label, msg)
+        .transform((v) => v.trim().toLowerCase())
+        .refine(
+          (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+          tagged("email.format", () => toMessages(msg).validation || translate("email", { label }))
+        ),
+      {
+        kind: "emailNormalized",
+        label,
+        messages: msg,
+        normalize: ["trim", "lowercase"],
+        jsonSchema: { format: "email" },
+      }
+    )
+  );
 
 // Optional number coercion ("" -> undefined, "12" -> 12)
 export const optionalNumberCoerce = (
   label = "This field",
   msg?: CustomMessages | string
-) => coerceNumber().pipe(optionalNumber(label, msg));
+) =>
+  withMeta(coerceNumber().pipe(optionalNumber(label, msg)), {
+    kind: "optionalNumberCoerce",
+    label,
+    messages: msg,
+    normalize: ["coerce"],
+  });
 
 // Boolean coercion
 export const booleanCoerce = (
   label = "This field",
   msg?: CustomMessages | string
-) => coerceBoolean().pipe(booleanBase(label, msg));
+) =>
+  withMeta(coerceBoolean().pipe(booleanBase(label, msg)), {
+    kind: "booleanCoerce",
+    label,
+    messages: msg,
+    normalize: ["coerce"],
+  });
+
+/** Raw slug input; a custom `pattern` is checked after normalization instead */
+const slugInput = (label: string, msg: CustomMessages | string | undefined, pattern?: RegExp) => {
+  const schema = z.string({
+    errorMap: fragmentErrorMap({
+      invalid: () => toMessages(msg).invalid || translate("string", { label }),
+      validation: () => toMessages(msg).validation || translate("slug", { label }),
+    }),
+  });
+  return (pattern ? schema : withIssueCode(schema.regex(/^[a-z0-9\s-]+$/), "slug.format"))
+    .transform((v) => v.trim().toLowerCase())
+    .refine(
+      (v) => !pattern || pattern.test(v),
+      tagged("slug.format", () => toMessages(msg).validation || translate("slugPattern", { label }))
+    );
+};
 
 /** Slug (required) normalized: validate first with regex, then normalize */
 export const requiredSlugNormalized = (
   label = "Slug",
-  msg?: CustomMessages | string
+  msg?: CustomMessages | string,
+  options: { pattern?: RegExp } = {}
 ) =>
-  z
-    .string({
-      invalid_type_error:
-        typeof msg === "string" ? msg : msg?.invalid || `${label} ${FIELD_ERRORS.STRING}`,
-    })
-    .regex(
-      /^[a-z0-9\s-]+$/,
-      typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.SLUG_FORMAT}`
-    )
-    .transform((v) => v.trim().toLowerCase());
+  withMeta(slugInput(label, msg, options.pattern), {
+    kind: "requiredSlugNormalized",
+    label,
+    messages: msg,
+    normalize: ["trim", "lowercase"],
+    constraints: options.pattern ? { pattern: options.pattern.source } : undefined,
+  });
 
 /** Slug (optional) normalized */
 export const optionalSlugNormalized = (
   label = "Slug",
-  msg?: CustomMessages | string
+  msg?: CustomMessages | string,
+  options: { pattern?: RegExp } = {}
 ) =>
-  z
-    .string({
-      invalid_type_error:
-        typeof msg === "string" ? msg : msg?.invalid || `${label} ${FIELD_ERRORS.STRING}`,
-    })
-    .regex(
-      /^[a-z0-9\s-]+$/,
-      typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.SLUG_FORMAT}`
-    )
-    .transform((v) => v.trim().toLowerCase())
-    .optional();
+  withMeta(slugInput(label, msg, options.pattern).optional(), {
+    kind: "optionalSlugNormalized",
+    label,
+    messages: msg,
+    normalize: ["trim", "lowercase"],
+    constraints: options.pattern ? { pattern: options.pattern.source } : undefined,
+  });
 
 /** Enum helpers */
 export const enumFrom = <T extends readonly [string, ...string[]]>(
@@ -109,148 +243,790 @@ export const enumWithLabels = <T extends readonly string[]>(
   label = "This field",
   msg?: CustomMessages | string
 ) => {
-  const e = z.enum(options as unknown as [T[number], ...T[number][]], {
-    errorMap: () => ({
-      message:
-        typeof msg === "string"
-          ? msg
-          : msg?.validation || `${label} ${FIELD_ERRORS.ENUM} ${options.join(", ")}`,
+  const e = withIssueCode(
+    z.enum(options as unknown as [T[number], ...T[number][]], {
+      errorMap: () => ({
+        message: toMessages(msg).validation || translate("enum", { label, options }),
+      }),
     }),
+    "enum.option"
+  );
+  return withMeta(
+    e.transform((v) => ({ value: v, label: labels[v] ?? v })),
+    { kind: "enumWithLabels", label, messages: msg, constraints: { labels } }
+  );
+};
+
+/* ---------------------------------------
+ * Discriminated unions
+ * ------------------------------------- */
+type VariantBranch<K extends string, V extends string, S extends z.ZodRawShape> = z.ZodObject<
+  z.objectUtil.extendShape<{ [P in K]: z.ZodLiteral<V> }, S>
+>;
+
+/** Union of the branch outputs, narrowed by `key` */
+export type VariantValue<K extends string, B extends Record<string, z.ZodRawShape>> = {
+  [V in keyof B & string]: z.output<VariantBranch<K, V, B[V]>>;
+}[keyof B & string];
+
+export interface VariantOptions<V extends string> {
+  /** Legacy discriminator values, e.g. `{ net_banking: "netbanking" }`; output uses the canonical value */
+  aliases?: Readonly<Record<string, V>>;
+}
+
+/**
+ * `z.discriminatedUnion` from `{ value: shape }`. An unknown `key` reports
+ * "<label> must be one of: ..."; otherwise only the matched branch's fields are checked.
+ */
+export const variants = <K extends string, B extends Record<string, z.ZodRawShape>>(
+  key: K,
+  branches: B,
+  label = "Type",
+  msg?: CustomMessages | string,
+  options: VariantOptions<keyof B & string> = {}
+) => {
+  const messages = toMessages(msg);
+  const values = Object.keys(branches);
+  const aliases: Record<string, string> = { ...options.aliases };
+  const union = z.discriminatedUnion(
+    key,
+    values.map((value) => z.object({ [key]: z.literal(value), ...branches[value] })) as [
+      z.ZodDiscriminatedUnionOption<K>,
+      ...z.ZodDiscriminatedUnionOption<K>[]
+    ],
+    {
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("object", { label }),
+        validation: () => messages.validation || translate("enum", { label, options: values }),
+      }),
+    }
+  );
+  const schema = z.preprocess((input) => {
+    if (typeof input !== "object" || input === null) return input;
+    const value = (input as Record<string, unknown>)[key];
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(aliases, value)
+      ? { ...input, [key]: aliases[value] }
+      : input;
+  }, union) as unknown as z.ZodEffects<typeof union, VariantValue<K, B>, unknown>;
+  return withMeta(schema, {
+    kind: "variants",
+    label,
+    messages: msg,
+    constraints: { discriminator: key, values, aliases },
+    jsonSchema: { discriminator: { propertyName: key } },
   });
-  return e.transform((v) => ({ value: v, label: labels[v] ?? v }));
 };
 
 /* ---------------------------------------
  * Pagination builders (safer defaults)
  * ------------------------------------- */
-export const buildPagination = (maxLimit = 200) =>
-  z.object({
-    page: z.coerce.number().int().min(1).default(1),
-    limit: z.coerce.number().int().min(1).max(maxLimit).default(10),
-  });
+export interface PaginationDefaults {
+  /** Default 1 */
+  defaultPage?: number;
+  /** Default 10 */
+  defaultLimit?: number;
+}
+
+export const buildPagination = (maxLimit = 200, defaults: PaginationDefaults = {}) =>
+  withMeta(
+    z.object({
+      page: z.coerce.number().int().min(1).default(defaults.defaultPage ?? 1),
+      limit: z.coerce.number().int().min(1).max(maxLimit).default(defaults.defaultLimit ?? 10),
+    }),
+    { kind: "pagination", constraints: { maxLimit } }
+  );
 
 export const buildListQuery = <SortKeys extends readonly string[]>(
   sortKeys: SortKeys,
-  maxLimit = 200
+  maxLimit = 200,
+  defaults: PaginationDefaults = {}
 ) =>
-  z.object({
-    filters: z.record(z.any()).optional().default({}),
-    sort: z
-      .object({
-        by: z.enum(sortKeys as unknown as [SortKeys[number], ...SortKeys[number][]]),
-        order: Enum(["asc", "desc"], "Sort order"),
-      })
-      .optional(),
-    search: z.string().optional(),
-    ...buildPagination(maxLimit).shape,
-  });
+  withMeta(
+    z.object({
+      filters: z.record(z.any()).optional().default({}),
+      sort: z
+        .object({
+          by: withIssueCode(
+            z.enum(sortKeys as unknown as [SortKeys[number], ...SortKeys[number][]]),
+            "sort.field"
+          ),
+          order: Enum(["asc", "desc"], "Sort order"),
+        })
+        .optional(),
+      search: z.string().optional(),
+      ...buildPagination(maxLimit, defaults).shape,
+    }),
+    { kind: "listQuery", constraints: { sortKeys, maxLimit } }
+  );
 
 /* ---------------------------------------
  * Email/Mobile normalized (structured)
  * ------------------------------------- */
 export const emailOrMobileNormalized = (
   label = "Identifier",
-  msg?: CustomMessages | string
-) =>
-  z
-    .string({
-      required_error: typeof msg === "string" ? msg : msg?.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-      invalid_type_error: typeof msg === "string" ? msg : msg?.invalid || `${label} ${FIELD_ERRORS.STRING}`,
-    })
-    .transform((raw) => raw.trim().replace(/[\s-]/g, ""))
-    .transform((raw) => (raw.startsWith("+91") ? raw.slice(3) : raw))
-    .refine(
-      (raw) => {
+  msg?: CustomMessages | string,
+  phoneOptions?: ParsePhoneOptions
+) => {
+  const isMobile = (raw: string) =>
+    phoneOptions ? parsePhone(raw, phoneOptions).success : /^[6-9]\d{9}$/.test(raw);
+  return withMeta(
+    z
+      .string({
+        errorMap: fragmentErrorMap({
+          required: () => toMessages(msg).required || translate("required", { label }),
+          invalid: () => toMessages(msg).invalid || translate("string", { label }),
+        }),
+      })
+      .transform((raw) => raw.trim().replace(/[\s-]/g, ""))
+      .transform((raw) => (!phoneOptions && raw.startsWith("+91") ? raw.slice(3) : raw))
+      .refine(
+        (raw) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw) || isMobile(raw),
+        tagged(
+          "email_or_mobile.format",
+          () => toMessages(msg).validation || translate("contact", { label })
+        )
+      )
+      .transform((raw) => {
         const isEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw);
-        const isMobile = /^[6-9]\d{9}$/.test(raw);
-        return isEmail || isMobile;
+        if (isEmail) return { type: "email" as const, value: raw.toLowerCase() };
+        const parsed = phoneOptions && parsePhone(raw, phoneOptions);
+        return { type: "mobile" as const, value: parsed && parsed.success ? parsed.data.e164 : raw };
+      }),
+    {
+      kind: "emailOrMobileNormalized",
+      label,
+      messages: msg,
+      normalize: ["trim", "stripSeparators", "stripCountryCode", "lowercase"],
+      constraints: phoneOptions ? { phone: phoneOptions } : undefined,
+      jsonSchema: {
+        anyOf: [
+          { format: "email" },
+          { pattern: phoneOptions ? "^\\+?[0-9 ().\\/-]+$" : "^(\\+91)?[6-9][0-9]{9}$" },
+        ],
       },
-      {
-        message:
-          typeof msg === "string" ? msg : msg?.validation || `${label} must be a valid email or mobile`,
-      }
-    )
-    .transform((raw) => {
-      const isEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw);
-      return isEmail
-        ? { type: "email" as const, value: raw.toLowerCase() }
-        : { type: "mobile" as const, value: raw };
-    });
+    }
+  );
+};
 
 /* ---------------------------------------
  * SEO stricter variant
  * NOTE: .max() before .transform()
  * ------------------------------------- */
-export const seoFieldsStrict = {
-  seo_title: requiredString("SEO Title")
-    .max(60, "SEO Title should be <= 60 chars")
-    .transform((v) => v.trim())
-    .optional(),
-  seo_description: requiredString("SEO Description")
-    .max(160, "SEO Description should be <= 160 chars")
-    .transform((v) => v.trim())
-    .optional(),
-  seo_image: requiredString("SEO Image")
-    .url(`SEO Image ${FIELD_ERRORS.URL}`)
-    .optional(),
-};
+export const buildSeoFields = (
+  limits: { titleMaxLength?: number; descriptionMaxLength?: number } = {}
+) => ({
+  seo_title: plainText("SEO Title", undefined, { maxLength: limits.titleMaxLength }).optional(),
+  seo_description: plainText("SEO Description", undefined, {
+    maxLength: limits.descriptionMaxLength,
+  }).optional(),
+  seo_image: withIssueCode(formatString("SEO Image", undefined, "url").url(), "url.format").optional(),
+});
+
+export const seoFieldsStrict = buildSeoFields({ titleMaxLength: 60, descriptionMaxLength: 160 });
 
 /* ---------------------------------------
  * India-specific validators
  * ------------------------------------- */
+/** Six-digit PIN ("560 001" is accepted); the leading digits must belong to a postal circle */
 export const pinCode = (
   label = "PIN Code",
   msg?: string | { validation?: string }
 ) =>
-  requiredString(label, msg).regex(
-    /^[0-9]{6}$/,
-    typeof msg === "string" ? msg : msg?.validation || `${label} must be 6 digits`
+  withMeta(
+    formatString(label, msg, "pinCode")
+      .transform((v) => v.replace(/[\s-]/g, ""))
+      .superRefine((v, ctx) => {
+        const fail = (code: string, key: MessageKey) =>
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: toMessages(msg).validation || translate(key, { label }),
+            params: { code },
+          });
+        if (!/^[0-9]{6}$/.test(v)) return fail("pin_code.format", "pinCode");
+        if (pinStates(v).length === 0) fail("pin_code.region", "pinRegion");
+      }),
+    {
+      kind: "pinCode",
+      label,
+      messages: msg,
+      normalize: ["stripSeparators"],
+      // what the fragment accepts, separators included ("560 001", "560-001")
+      jsonSchema: { pattern: "^[\\s\\-]*[1-8](?:[\\s\\-]*[0-9]){5}[\\s\\-]*$" },
+    }
   );
 
-export const pan = (label = "PAN", msg?: string | { validation?: string }) =>
-  requiredString(label, msg)
-    .regex(/^[a-z]{5}\d{4}[a-z]$/i, typeof msg === "string" ? msg : msg?.validation || `${label} must be a valid PAN`)
-    .transform((v) => v.trim().toLowerCase());
+/** PAN, normalized to uppercase; `structured` also decodes the holder type */
+export const pan = <S extends boolean = false>(
+  label = "PAN",
+  msg?: string | { validation?: string },
+  options: { structured?: S } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "pan")
+      .transform((v) => v.trim().toUpperCase())
+      .refine(
+        (v) => PAN_PATTERN.test(v),
+        tagged("pan.format", () => toMessages(msg).validation || translate("pan", { label }))
+      )
+      .transform(
+        (v) => (options.structured ? decodePan(v) : v) as S extends true ? PanDetails : string
+      ),
+    {
+      kind: "pan",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      constraints: { structured: !!options.structured },
+      jsonSchema: { pattern: "^[A-Za-z]{5}[0-9]{4}[A-Za-z]$" },
+    }
+  );
 
-export const gstin = (label = "GSTIN", msg?: string | { validation?: string }) =>
-  requiredString(label, msg)
-    .regex(/^\d{2}[a-z0-9]{10}\d[zZ][a-z0-9]$/, typeof msg === "string" ? msg : msg?.validation || `${label} must be a valid GSTIN`)
-    .transform((v) => v.trim().toLowerCase());
+/**
+ * GSTIN, normalized to uppercase. Checks the state code, the embedded PAN
+ * and the mod-36 check digit; `structured` returns the decoded parts.
+ */
+export const gstin = <S extends boolean = false>(
+  label = "GSTIN",
+  msg?: string | { validation?: string },
+  options: { structured?: S } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "gstin")
+      .transform((v) => v.trim().toUpperCase())
+      .superRefine((v, ctx) => {
+        const fail = (code: string, key: MessageKey) =>
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: toMessages(msg).validation || translate(key, { label }),
+            params: { code },
+          });
+        if (!GSTIN_PATTERN.test(v)) return fail("gstin.format", "gstin");
+        if (!Object.prototype.hasOwnProperty.call(GST_STATE_CODES, v.slice(0, 2)))
+          return fail("gstin.state", "gstinState");
+        if (!PAN_PATTERN.test(v.slice(2, 12))) return fail("gstin.pan", "gstinPan");
+        if (gstinCheckDigit(v.slice(0, 14)) !== v[14])
+          fail("gstin.checksum", "gstinChecksum");
+      })
+      .transform(
+        (v) => (options.structured ? decodeGstin(v) : v) as S extends true ? GstinDetails : string
+      ),
+    {
+      kind: "gstin",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      constraints: { structured: !!options.structured },
+      jsonSchema: { pattern: "^[0-9]{2}[A-Za-z]{5}[0-9]{4}[A-Za-z][1-9A-Za-z][Zz][0-9A-Za-z]$" },
+    }
+  );
 
 export const inMobile = (
   label = "Mobile",
   msg?: string | { validation?: string }
 ) =>
-  requiredString(label, msg)
-    .transform((v) => v.replace(/[\s-]/g, ""))
-    .transform((v) => (v.startsWith("+91") ? v.slice(3) : v))
-    .refine((v) => /^[6-9]\d{9}$/.test(v), {
-      message:
-        typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.MOBILE}`,
+  withMeta(
+    requiredString(label, msg)
+      .transform((v) => v.replace(/[\s-]/g, ""))
+      .transform((v) => (v.startsWith("+91") ? v.slice(3) : v))
+      .refine(
+        (v) => /^[6-9]\d{9}$/.test(v),
+        tagged("mobile.format", () => toMessages(msg).validation || translate("mobile", { label }))
+      ),
+    {
+      kind: "inMobile",
+      label,
+      messages: msg,
+      normalize: ["stripSeparators", "stripCountryCode"],
+    }
+  );
+
+/* ---------------------------------------
+ * Indian banking & KYC identifiers
+ * ------------------------------------- */
+const failWithKey =
+  (ctx: z.RefinementCtx, label: string, msg: CustomMessages | string | undefined) =>
+  (code: string, key: MessageKey, params: MessageParams = {}) =>
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: toMessages(msg).validation || translate(key, { label, ...params }),
+      params: { code },
+    });
+
+/** IFSC, normalized to uppercase; `structured` also decodes the bank */
+export const ifsc = <S extends boolean = false>(
+  label = "IFSC",
+  msg?: string | { validation?: string },
+  options: { structured?: S } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "ifsc")
+      .transform((v) => v.trim().toUpperCase())
+      .refine(
+        (v) => IFSC_PATTERN.test(v),
+        tagged("ifsc.format", () => toMessages(msg).validation || translate("ifsc", { label }))
+      )
+      .transform(
+        (v) => (options.structured ? decodeIfsc(v) : v) as S extends true ? IfscDetails : string
+      ),
+    {
+      kind: "ifsc",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      constraints: { structured: !!options.structured },
+      jsonSchema: { pattern: "^[A-Za-z]{4}0[A-Za-z0-9]{6}$" },
+    }
+  );
+
+/** `handle@psp`, normalized to lowercase; `handles` limits the PSP part ("okhdfcbank", "ybl") */
+export const upiId = (
+  label = "UPI ID",
+  msg?: string | { validation?: string },
+  options: { handles?: readonly string[] } = {}
+) => {
+  const handles = options.handles?.map((handle) => handle.toLowerCase());
+  return withMeta(
+    formatString(label, msg, "upiId")
+      .transform((v) => v.trim().toLowerCase())
+      .superRefine((v, ctx) => {
+        const fail = failWithKey(ctx, label, msg);
+        if (!UPI_ID_PATTERN.test(v)) return fail("upi.format", "upiId");
+        if (handles && !handles.includes(v.slice(v.indexOf("@") + 1)))
+          fail("upi.handle", "upiHandle", { options: handles.map((handle) => `@${handle}`) });
+      }),
+    {
+      kind: "upiId",
+      label,
+      messages: msg,
+      normalize: ["trim", "lowercase"],
+      constraints: { handles },
+      jsonSchema: { pattern: "^[A-Za-z0-9][A-Za-z0-9._-]{1,255}@[A-Za-z][A-Za-z0-9]{1,63}$" },
+    }
+  );
+};
+
+/**
+ * Aadhaar number ("2341 2341 2346" is accepted), checked with its Verhoeff
+ * digit. `masked` returns only "XXXX-XXXX-2346" so the full number is never stored.
+ */
+export const aadhaar = <M extends boolean = false>(
+  label = "Aadhaar",
+  msg?: string | { validation?: string },
+  options: { masked?: M } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "aadhaar")
+      .transform((v) => v.replace(/[\s-]/g, ""))
+      .superRefine((v, ctx) => {
+        const fail = failWithKey(ctx, label, msg);
+        if (!AADHAAR_PATTERN.test(v)) return fail("aadhaar.format", "aadhaar");
+        if (!isVerhoeffValid(v)) fail("aadhaar.checksum", "aadhaarChecksum");
+      })
+      .transform((v) => (options.masked ? maskAadhaar(v) : v)),
+    {
+      kind: "aadhaar",
+      label,
+      messages: msg,
+      normalize: options.masked ? ["stripSeparators", "mask"] : ["stripSeparators"],
+      constraints: { masked: !!options.masked },
+      jsonSchema: { pattern: "^[2-9][0-9]{3}[ -]?[0-9]{4}[ -]?[0-9]{4}$" },
+    }
+  );
+
+/** Bank account number: digits only (leading zeros kept), 9 to 18 digits by default */
+export const bankAccount = (
+  label = "Account Number",
+  msg?: string | { validation?: string },
+  options: { minLength?: number; maxLength?: number } = {}
+) => {
+  const min = options.minLength ?? 9;
+  const max = options.maxLength ?? 18;
+  return withMeta(
+    formatString(label, msg, "bankAccount")
+      .transform((v) => v.replace(/[\s-]/g, ""))
+      .superRefine((v, ctx) => {
+        const fail = failWithKey(ctx, label, msg);
+        if (!/^[0-9]+$/.test(v)) return fail("bank_account.format", "bankAccount");
+        if (v.length < min || v.length > max)
+          fail("bank_account.length", "bankAccountLength", { min, max });
+      }),
+    {
+      kind: "bankAccount",
+      label,
+      messages: msg,
+      normalize: ["stripSeparators"],
+      constraints: { minLength: min, maxLength: max },
+      jsonSchema: { pattern: `^[0-9]{${min},${max}}$` },
+    }
+  );
+};
+
+/** Corporate Identification Number, normalized to uppercase; `structured` decodes its parts */
+export const cin = <S extends boolean = false>(
+  label = "CIN",
+  msg?: string | { validation?: string },
+  options: { structured?: S } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "cin")
+      .transform((v) => v.trim().toUpperCase())
+      .refine(
+        (v) => CIN_PATTERN.test(v),
+        tagged("cin.format", () => toMessages(msg).validation || translate("cin", { label }))
+      )
+      .transform(
+        (v) => (options.structured ? decodeCin(v) : v) as S extends true ? CinDetails : string
+      ),
+    {
+      kind: "cin",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      constraints: { structured: !!options.structured },
+      jsonSchema: { pattern: "^[LUlu][0-9]{5}[A-Za-z]{2}[0-9]{4}[A-Za-z]{3}[0-9]{6}$" },
+    }
+  );
+
+/** TAN (tax deduction account number), normalized to uppercase */
+export const tan = (
+  label = "TAN",
+  msg?: string | { validation?: string }
+) =>
+  withMeta(
+    formatString(label, msg, "tan")
+      .transform((v) => v.trim().toUpperCase())
+      .refine(
+        (v) => TAN_PATTERN.test(v),
+        tagged("tan.format", () => toMessages(msg).validation || translate("tan", { label }))
+      ),
+    {
+      kind: "tan",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      jsonSchema: { pattern: "^[A-Za-z]{4}[0-9]{5}[A-Za-z]$" },
+    }
+  );
+
+/** Indian state or UT by name or alias, output as the canonical name */
+export const inState = (
+  label = "State",
+  msg?: string | { validation?: string },
+  options: { abbreviations?: boolean } = {}
+) =>
+  withMeta(
+    formatString(label, msg, "inState").transform((v, ctx) => {
+      const name = findInState(v, options);
+      if (name) return name;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: toMessages(msg).validation || translate("inState", { label }),
+        params: { code: "in_state.invalid" },
+      });
+      return z.NEVER;
+    }),
+    {
+      kind: "inState",
+      label,
+      messages: msg,
+      normalize: ["canonicalName"],
+      constraints: { abbreviations: !!options.abbreviations },
+      jsonSchema: {
+        enum: options.abbreviations
+          ? [...IN_STATE_NAMES, ...IN_STATE_NAMES.map((name) => IN_STATES[name].abbreviations[0])]
+          : [...IN_STATE_NAMES],
+      },
+    }
+  );
+
+export interface InAddressOptions {
+  /** Accept "MH", "KA", "DL" ... for the state (default false) */
+  abbreviations?: boolean;
+  /** Check the PIN against the state's postal circle (default true) */
+  checkPinState?: boolean;
+  labels?: Partial<Record<"line1" | "line2" | "city" | "state" | "pin", string>>;
+}
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s\-(.'])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase());
+
+/**
+ * `{ line1, line2?, city, state, pin }`: sanitized lines, title-cased city,
+ * canonical state name, and a PIN from the state's postal circle.
+ */
+export const inAddress = (options: InAddressOptions = {}) => {
+  const labels = {
+    line1: "Address Line 1",
+    line2: "Address Line 2",
+    city: "City",
+    state: "State",
+    pin: "PIN Code",
+    ...options.labels,
+  };
+  const schema = z
+    .object({
+      line1: plainText(labels.line1, undefined, { maxLength: 200 }),
+      line2: optionalPlainText(labels.line2, undefined, { maxLength: 200 }),
+      city: withMeta(
+        plainText(labels.city, undefined, { maxLength: 100 }).transform((v) => titleCase(v as string)),
+        { kind: "plainText", label: labels.city, normalize: ["titleCase"] }
+      ),
+      state: inState(labels.state, undefined, { abbreviations: options.abbreviations }),
+      pin: pinCode(labels.pin),
+    })
+    .superRefine((v, ctx) => {
+      if (options.checkPinState === false) return;
+      // skip when the state or PIN already failed on its own
+      if (typeof v.state !== "string" || !IN_STATE_NAMES.includes(v.state)) return;
+      const states = pinStates(v.pin);
+      if (states.length === 0 || states.includes(v.state)) return;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["pin"],
+        message: translate("pinState", { label: labels.pin, state: v.state }),
+        params: { code: "address.pin_state" },
+      });
     });
+  return withMeta(schema, {
+    kind: "inAddress",
+    constraints: {
+      abbreviations: !!options.abbreviations,
+      checkPinState: options.checkPinState !== false,
+    },
+  });
+};
+
+/* ---------------------------------------
+ * International phone numbers
+ * ------------------------------------- */
+export type PhoneOutput = "object" | "e164";
+
+export interface PhoneOptions<C extends PhoneCountry, O extends PhoneOutput>
+  extends ParsePhoneOptions<C> {
+  label?: string;
+  messages?: CustomMessages | string;
+  /** "object" (default): `{ e164, country, national, type }`; "e164": "+919876543210" */
+  output?: O;
+}
+
+export type PhoneValue<C extends PhoneCountry, O extends PhoneOutput> = O extends "e164"
+  ? string
+  : PhoneDetails<C>;
+
+/** Phone number in any bundled country, normalized to E.164 */
+export const phone = <C extends PhoneCountry = PhoneCountry, O extends PhoneOutput = "object">(
+  options: PhoneOptions<C, O> = {}
+) => {
+  const label = options.label ?? "Phone";
+  const messages = toMessages(options.messages);
+  const schema = formatString(label, options.messages, "phone").transform(
+    (value, ctx): PhoneValue<C, O> => {
+      const result = parsePhone(value, options);
+      if (result.success)
+        return (options.output === "e164" ? result.data.e164 : result.data) as PhoneValue<C, O>;
+      const message =
+        result.reason === "country"
+          ? translate("phoneCountry", { label, options: options.countries ?? PHONE_COUNTRY_CODES })
+          : result.reason === "type"
+          ? translate("phoneType", {
+              label,
+              options: (options.types ?? []).map((t) => (t === "fixedLine" ? "landline" : t)),
+            })
+          : translate("phone", { label });
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: messages.validation || message,
+        params: { code: `phone.${result.reason}` },
+      });
+      return z.NEVER;
+    }
+  );
+  return withMeta(schema, {
+    kind: "phone",
+    label,
+    messages: options.messages,
+    normalize: ["e164"],
+    constraints: {
+      countries: options.countries ?? PHONE_COUNTRY_CODES,
+      defaultCountry: options.defaultCountry,
+      types: options.types,
+      output: options.output ?? "object",
+    },
+    jsonSchema: { pattern: "^\\+?[0-9 ().\\/-]+$" },
+  });
+};
 
 /* ---------------------------------------
  * Money & currency helpers
  * ------------------------------------- */
 export const inrCurrency = () => z.literal("INR");
 
-export const money = (label = "Amount", msg?: { invalid?: string; validation?: string } | string) =>
-  z
-    .union([z.number(), z.string()])
-    .transform((v) => (typeof v === "string" ? Number(v) : v))
-    .refine((n) => Number.isFinite(n), {
-      message: typeof msg === "string" ? msg : msg?.invalid || `${label} ${FIELD_ERRORS.NUMBER}`,
-    })
-    .refine((n) => n >= 0, {
-      message: typeof msg === "string" ? msg : msg?.validation || `${label} must be >= 0`,
-    })
-    .transform((n) => Math.round(n * 100) / 100);
+/** ISO 4217 code, normalized to uppercase; `codes` narrows the accepted set */
+export const currency = <C extends CurrencyCode = CurrencyCode>(
+  label = "Currency",
+  msg?: CustomMessages | string,
+  codes?: readonly C[]
+) =>
+  withMeta(
+    formatString(label, msg, "currency")
+      .transform((v) => v.trim().toUpperCase())
+      .refine(
+        (v): v is C =>
+          codes ? (codes as readonly string[]).includes(v) : isCurrencyCode(v),
+        tagged(
+          "currency.code",
+          () =>
+            toMessages(msg).validation ||
+            (codes
+              ? translate("enum", { label, options: codes })
+              : translate("currency", { label }))
+        )
+      ),
+    {
+      kind: "currency",
+      label,
+      messages: msg,
+      normalize: ["trim", "uppercase"],
+      constraints: codes ? { codes } : {},
+      jsonSchema: codes ? { enum: codes } : { pattern: "^[A-Za-z]{3}$" },
+    }
+  );
+
+export type MoneyOutput = "number" | "minor" | "object";
+
+export interface MoneyValue<C extends CurrencyCode = CurrencyCode> {
+  currency: C;
+  /** Rounded to the currency's minor units */
+  amount: number;
+  /** Integer amount in minor units (paise, cents ...) */
+  minor: number;
+}
+
+export interface MoneyOptions<O extends MoneyOutput = "number"> {
+  /** Defaults to INR */
+  currency?: CurrencyCode;
+  rounding?: RoundingMode;
+  /** "number" (default), integer "minor" units, or a `MoneyValue` object */
+  output?: O;
+  /** Bounds in major units, e.g. "0.50" or 1000 */
+  min?: number | string;
+  max?: number | string;
+  /** Accept negative amounts (refunds, adjustments) */
+  allowNegative?: boolean;
+  /** Decimal separator for locale-formatted strings (default ".") */
+  decimalSeparator?: "." | ",";
+}
 
-export const priceObject = z.object({
-  currency: inrCurrency().default("INR"),
-  amount: money(),
+type MoneyResult<O extends MoneyOutput> = O extends "object" ? MoneyValue : number;
+
+/** Parse into minor units, reporting money issues on `ctx`; undefined when invalid */
+const toMinorUnits = (
+  input: string | number,
+  code: CurrencyCode,
+  label: string,
+  msg: { invalid?: string; validation?: string } | string | undefined,
+  options: Omit<MoneyOptions<MoneyOutput>, "currency" | "output">,
+  ctx: z.RefinementCtx,
+  path: (string | number)[] = []
+): number | undefined => {
+  const messages = toMessages(msg);
+  const minorUnits = CURRENCY_MINOR_UNITS[code];
+  const fail = (code: string, message: string) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { code }, path });
+    return undefined;
+  };
+  const minor = parseAmount(input, {
+    minorUnits,
+    rounding: options.rounding,
+    decimalSeparator: options.decimalSeparator,
+    currency: code,
+  });
+  if (minor === undefined)
+    return fail("money.format", messages.invalid || translate("number", { label }));
+  if (minor < 0 && !options.allowNegative)
+    return fail("money.min", messages.validation || translate("min", { label, min: 0 }));
+  const bound = (value: number | string) => parseAmount(value, { minorUnits }) ?? NaN;
+  if (options.min !== undefined && minor < bound(options.min))
+    return fail(
+      "money.min",
+      messages.validation ||
+        translate("min", { label, min: formatMinor(bound(options.min), minorUnits) })
+    );
+  if (options.max !== undefined && minor > bound(options.max))
+    return fail(
+      "money.max",
+      messages.validation ||
+        translate("max", { label, max: formatMinor(bound(options.max), minorUnits) })
+    );
+  return minor;
+};
+
+const toMoneyValue = <C extends CurrencyCode>(minor: number, code: C): MoneyValue<C> => ({
+  currency: code,
+  amount: Number(formatMinor(minor, CURRENCY_MINOR_UNITS[code])),
+  minor,
 });
 
+/**
+ * Amount as number or decimal string ("₹1,23,456.78" works too), parsed
+ * exactly and rounded to the currency's minor units.
+ */
+export const money = <O extends MoneyOutput = "number">(
+  label = "Amount",
+  msg?: { invalid?: string; validation?: string } | string,
+  options: MoneyOptions<O> = {}
+) => {
+  const code = options.currency ?? "INR";
+  const schema = z.union([z.number(), z.string()]).transform((v, ctx) => {
+    const minor = toMinorUnits(v, code, label, msg, options, ctx);
+    if (minor === undefined) return z.NEVER;
+    const value = toMoneyValue(minor, code);
+    const output = options.output ?? "number";
+    return (
+      output === "object" ? value : output === "minor" ? minor : value.amount
+    ) as MoneyResult<O>;
+  });
+  return withMeta(schema, {
+    kind: "money",
+    label,
+    messages: msg,
+    constraints: { ...options, currency: code },
+    jsonSchema: {
+      "x-currency": code,
+      ...(options.allowNegative ? {} : { minimum: 0 }),
+      ...(options.min !== undefined ? { minimum: Number(options.min) } : {}),
+      ...(options.max !== undefined ? { maximum: Number(options.max) } : {}),
+    },
+  });
+};
+
+/** `{ currency, amount }` whose precision follows the chosen currency */
+export const buildPriceObject = <C extends CurrencyCode = "INR">(
+  options: Omit<MoneyOptions, "currency" | "output"> & {
+    currencies?: readonly C[];
+    defaultCurrency?: C;
+  } = {}
+) => {
+  const currencies = options.currencies ?? (["INR"] as readonly CurrencyCode[] as readonly C[]);
+  const schema = z
+    .object({
+      currency: currency("Currency", undefined, currencies).default(
+        options.defaultCurrency ?? currencies[0]
+      ),
+      amount: z.union([z.number(), z.string()]),
+    })
+    .transform((v, ctx) => {
+      const code = v.currency as C;
+      const minor = toMinorUnits(v.amount, code, "Amount", undefined, options, ctx, ["amount"]);
+      if (minor === undefined) return z.NEVER;
+      return toMoneyValue(minor, code);
+    });
+  return withMeta(schema, { kind: "priceObject", constraints: { ...options, currencies } });
+};
+
+export const priceObject = buildPriceObject();
+
 /* ---------------------------------------
  * Dates & ranges
  * ------------------------------------- */
@@ -258,24 +1034,261 @@ export const isoDateTime = (
   label = "Date",
   msg?: string | { validation?: string }
 ) =>
-  requiredString(label, msg).refine((v) => !Number.isNaN(Date.parse(v)), {
-    message:
-      typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.DATE}`,
+  withMeta(
+    requiredString(label, msg).refine(
+      (v) => !Number.isNaN(Date.parse(v)),
+      tagged("date.format", () => toMessages(msg).validation || translate("date", { label }))
+    ),
+    { kind: "isoDateTime", label, messages: msg, jsonSchema: { format: "date-time" } }
+  );
+
+export const dateAfter = (minISO: string, label = "Date") =>
+  withMeta(
+    isoDateTime(label).refine(
+      (v) => new Date(v) > new Date(minISO),
+      tagged("date.after", () => translate("dateAfter", { label, min: minISO }))
+    ),
+    { kind: "dateAfter", label, constraints: { after: minISO } }
+  );
+
+/* ---------------------------------------
+ * Strict, timezone-aware dates
+ * ------------------------------------- */
+export type DateOutput = "string" | "date" | "epoch";
+
+export type DateValue<O extends DateOutput> = O extends "date"
+  ? Date
+  : O extends "epoch"
+  ? number
+  : string;
+
+export interface DateFragmentOptions<O extends DateOutput = "string"> {
+  /** Absolute ("2024-01-01", Date, epoch ms) or relative ("now", "today", "+30d", "-18y") */
+  min?: DateBound;
+  max?: DateBound;
+  /** IANA zone for "today", relative bounds, local times and Date output (default "UTC") */
+  timeZone?: string;
+  /** "string" (default), "date" or "epoch" (ms) */
+  output?: O;
+}
+
+const failWith = (ctx: z.RefinementCtx, code: string, message: string) => {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { code } });
+  return z.NEVER;
+};
+
+const toDateOutput = <O extends DateOutput>(output: O | undefined, epoch: number, text: string) =>
+  (output === "date" ? new Date(epoch) : output === "epoch" ? epoch : text) as DateValue<O>;
+
+/** Strict "YYYY-MM-DD" calendar date; `min: "-18y"`-style bounds work for age checks */
+export const isoDate = <O extends DateOutput = "string">(
+  label = "Date",
+  msg?: CustomMessages | string,
+  options: DateFragmentOptions<O> = {}
+) => {
+  const timeZone = assertTimeZone(options.timeZone ?? "UTC");
+  const min = options.min === undefined ? undefined : dateBound(options.min, timeZone);
+  const max = options.max === undefined ? undefined : dateBound(options.max, timeZone);
+  const messages = toMessages(msg);
+  const schema = formatString(label, msg, "date").transform((raw, ctx): DateValue<O> => {
+    const value = raw.trim();
+    const day = parseIsoDate(value);
+    if (day === undefined)
+      return failWith(ctx, "date.format", messages.validation || translate("date", { label }));
+    const lo = min?.();
+    if (lo !== undefined && value < lo)
+      return failWith(ctx, "date.min", messages.validation || translate("dateMin", { label, min: lo }));
+    const hi = max?.();
+    if (hi !== undefined && value > hi)
+      return failWith(ctx, "date.max", messages.validation || translate("dateMax", { label, max: hi }));
+    return toDateOutput(options.output, zonedTimeToEpoch(day, timeZone), value);
   });
+  return withMeta(schema, {
+    kind: "isoDate",
+    label,
+    messages: msg,
+    constraints: { min: options.min, max: options.max, timeZone, output: options.output ?? "string" },
+    jsonSchema: { format: "date" },
+  });
+};
 
-export const dateRange = z
-  .object({
-    start: isoDateTime("Start date"),
-    end: isoDateTime("End date"),
-  })
-  .refine((r) => new Date(r.start) <= new Date(r.end), {
-    message: "Start date must be before or equal to end date",
+/**
+ * ISO 8601 date-time with a required offset ("Z" / "+05:30"). With
+ * `timeZone`, offset-less input is read as wall-clock time in that zone.
+ * String output is normalized to "YYYY-MM-DDTHH:mm:ss(Z|±HH:mm)".
+ */
+export const zonedDateTime = <O extends DateOutput = "string">(
+  label = "Date",
+  msg?: CustomMessages | string,
+  options: DateFragmentOptions<O> = {}
+) => {
+  const timeZone = assertTimeZone(options.timeZone ?? "UTC");
+  const min = options.min === undefined ? undefined : instantBound(options.min, timeZone);
+  const max = options.max === undefined ? undefined : instantBound(options.max, timeZone);
+  const messages = toMessages(msg);
+  const schema = formatString(label, msg, "dateTime").transform((raw, ctx): DateValue<O> => {
+    const parsed = parseIsoDateTime(raw.trim(), options.timeZone);
+    if (!parsed)
+      return failWith(
+        ctx,
+        "date_time.format",
+        messages.validation || translate(options.timeZone ? "date" : "dateTime", { label })
+      );
+    const lo = min?.();
+    if (lo !== undefined && parsed.epoch < lo)
+      return failWith(
+        ctx,
+        "date_time.min",
+        messages.validation || translate("dateMin", { label, min: new Date(lo).toISOString() })
+      );
+    const hi = max?.();
+    if (hi !== undefined && parsed.epoch > hi)
+      return failWith(
+        ctx,
+        "date_time.max",
+        messages.validation || translate("dateMax", { label, max: new Date(hi).toISOString() })
+      );
+    return toDateOutput(options.output, parsed.epoch, parsed.iso);
+  });
+  return withMeta(schema, {
+    kind: "zonedDateTime",
+    label,
+    messages: msg,
+    constraints: { min: options.min, max: options.max, timeZone, output: options.output ?? "string" },
+    jsonSchema: { format: "date-time" },
   });
+};
 
-export const dateAfter = (minISO: string, label = "Date") =>
-  isoDateTime(label).refine((v) => new Date(v) > new Date(minISO), {
-    message: `${label} must be after ${minISO}`,
+export type TimeOutput = "string" | "seconds";
+
+export interface TimeOfDayOptions<O extends TimeOutput = "string"> {
+  /** "HH:mm[:ss]", "now" or "+2h"-style offsets from now; min > max wraps midnight */
+  min?: DateBound;
+  max?: DateBound;
+  /** IANA zone for "now" (default "UTC") */
+  timeZone?: string;
+  /** "string" (default) or "seconds" since midnight */
+  output?: O;
+}
+
+/** "HH:mm[:ss[.fff]]", 24-hour clock */
+export const timeOfDay = <O extends TimeOutput = "string">(
+  label = "Time",
+  msg?: CustomMessages | string,
+  options: TimeOfDayOptions<O> = {}
+) => {
+  const timeZone = assertTimeZone(options.timeZone ?? "UTC");
+  const min = options.min === undefined ? undefined : timeOfDayBound(options.min, timeZone);
+  const max = options.max === undefined ? undefined : timeOfDayBound(options.max, timeZone);
+  const messages = toMessages(msg);
+  const schema = formatString(label, msg, "time").transform(
+    (raw, ctx): O extends "seconds" ? number : string => {
+      const value = raw.trim();
+      const seconds = parseTimeOfDay(value);
+      if (seconds === undefined)
+        return failWith(ctx, "time.format", messages.validation || translate("time", { label }));
+      const [lo, hi] = [min?.(), max?.()];
+      const wraps = lo !== undefined && hi !== undefined && lo > hi;
+      const early = lo !== undefined && seconds < lo && !(wraps && seconds <= (hi as number));
+      const late = hi !== undefined && seconds > hi && !(wraps && seconds >= (lo as number));
+      if (early)
+        return failWith(
+          ctx,
+          "time.min",
+          messages.validation || translate("dateMin", { label, min: formatTimeOfDay(lo as number) })
+        );
+      if (late)
+        return failWith(
+          ctx,
+          "time.max",
+          messages.validation || translate("dateMax", { label, max: formatTimeOfDay(hi as number) })
+        );
+      return (options.output === "seconds" ? seconds : value) as O extends "seconds"
+        ? number
+        : string;
+    }
+  );
+  return withMeta(schema, {
+    kind: "timeOfDay",
+    label,
+    messages: msg,
+    constraints: { min: options.min, max: options.max, timeZone, output: options.output ?? "string" },
+    jsonSchema: { pattern: "^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9](\\.[0-9]{1,3})?)?$" },
+  });
+};
+
+export interface DateRangeOptions<O extends DateOutput = "string"> extends DateFragmentOptions<O> {
+  /** "dateTime" (default) builds `zonedDateTime` fields, "date" builds `isoDate` fields */
+  type?: "date" | "dateTime";
+  startLabel?: string;
+  endLabel?: string;
+  /** Longest allowed range, e.g. "90d" or "1y" */
+  maxSpan?: string;
+  /** Allow `end` to equal `start` (default true) */
+  inclusive?: boolean;
+  messages?: { order?: string; span?: string };
+}
+
+/** `{ start, end }` with ordering and span errors reported on `end` */
+export const buildDateRange = <O extends DateOutput = "string">(
+  options: DateRangeOptions<O> = {}
+) => {
+  const {
+    type = "dateTime",
+    startLabel = "Start date",
+    endLabel = "End date",
+    inclusive = true,
+  } = options;
+  const span = options.maxSpan === undefined ? undefined : parseDuration(options.maxSpan);
+  if (options.maxSpan !== undefined && !span)
+    throw new RangeError(`Invalid maxSpan: ${options.maxSpan}`);
+  const field = type === "date" ? isoDate : zonedDateTime;
+  const toEpoch = (value: unknown): number =>
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === "number"
+      ? value
+      : ((type === "date"
+          ? parseIsoDate(String(value))
+          : parseIsoDateTime(String(value))?.epoch) as number);
+
+  const schema = z
+    .object({
+      start: field(startLabel, undefined, options),
+      end: field(endLabel, undefined, options),
+    })
+    .superRefine((range, ctx) => {
+      const [start, end] = [toEpoch(range.start), toEpoch(range.end)];
+      const issue = (code: string, message: string) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["end"], message, params: { code } });
+      if (inclusive ? end < start : end <= start)
+        issue(
+          "date_range.order",
+          options.messages?.order ||
+            translate(inclusive ? "dateMin" : "dateAfter", { label: endLabel, min: startLabel })
+        );
+      else if (span && end > addDuration(start, span))
+        issue(
+          "date_range.span",
+          options.messages?.span ||
+            translate("dateSpan", { label: endLabel, max: options.maxSpan, other: startLabel })
+        );
+    });
+  return withMeta(schema, {
+    kind: "dateRange",
+    constraints: {
+      type,
+      min: options.min,
+      max: options.max,
+      timeZone: options.timeZone ?? "UTC",
+      maxSpan: options.maxSpan,
+      inclusive,
+    },
   });
+};
+
+/** `buildDateRange()`: offset date-times, with an order error on `end` */
+export const dateRange = buildDateRange();
 
 /* ---------------------------------------
  * Arrays
@@ -283,43 +1296,183 @@ export const dateAfter = (minISO: string, label = "Date") =>
 export const nonEmptyArrayOf = <T extends z.ZodTypeAny>(
   schema: T,
   label = "Items"
-) => z.array(schema).min(1, `${label} must contain at least 1 item`);
+) =>
+  withMeta(
+    z
+      .array(schema, {
+        errorMap: fragmentErrorMap({
+          validation: (issue) =>
+            issue.code === z.ZodIssueCode.too_small
+              ? translate("arrayMin", { label, min: Number(issue.minimum) })
+              : undefined,
+        }),
+      })
+      .min(1),
+    { kind: "nonEmptyArrayOf", label }
+  );
 
 export const uniqueArrayBy = <T extends z.ZodTypeAny, K extends string>(
   schema: T,
   key: K,
   label = "Array"
 ) =>
-  z
-    .array(schema)
-    .refine(
-      (arr) => new Set(arr.map((x: any) => x?.[key])).size === arr.length,
-      `${label} must have unique ${key}`
-    );
+  withMeta(
+    z
+      .array(schema)
+      .refine(
+        (arr) => new Set(arr.map((x: any) => x?.[key])).size === arr.length,
+        tagged("array.unique", () => translate("unique", { label, key }), { key })
+      ),
+    { kind: "uniqueArrayBy", label, constraints: { key }, jsonSchema: { "x-uniqueBy": key } }
+  );
 
 /* ---------------------------------------
  * URL variants
  * ------------------------------------- */
+export type UrlOutput = "string" | "url";
+
+export type UrlValue<O extends UrlOutput> = O extends "url" ? URL : string;
+
+export interface UrlOptions<O extends UrlOutput = "string"> extends UrlPolicy {
+  label?: string;
+  messages?: CustomMessages | string;
+  /** "string" (default): normalized href; "url": the parsed `URL` */
+  output?: O;
+}
+
+type UrlFailure = Exclude<UrlParseResult, { success: true }>["reason"];
+
+const URL_FAILURES: Record<UrlFailure, { code: string; key: MessageKey }> = {
+  format: { code: "url.format", key: "url" },
+  length: { code: "url.max", key: "maxLength" },
+  protocol: { code: "url.protocol", key: "urlProtocol" },
+  credentials: { code: "url.credentials", key: "urlCredentials" },
+  host: { code: "url.host", key: "urlHost" },
+  private: { code: "url.private_network", key: "urlPrivate" },
+};
+
+const urlFailure = (reason: UrlFailure, label: string, policy: UrlPolicy) => {
+  const { code, key } = URL_FAILURES[reason];
+  return {
+    code,
+    message: translate(key, {
+      label,
+      max: policy.maxLength ?? 2048,
+      options: policy.protocols ?? ["https", "http"],
+    }),
+  };
+};
+
+/**
+ * User-supplied URL (webhooks, avatars, links) with SSRF protection:
+ * loopback, private, link-local and metadata addresses are rejected in
+ * every spelling ("http://2130706433", "http://[::ffff:127.0.0.1]"),
+ * IDN hosts become punycode and the result is the normalized href.
+ */
+export const url = <O extends UrlOutput = "string">(options: UrlOptions<O> = {}) => {
+  const label = options.label ?? "URL";
+  const messages = toMessages(options.messages);
+  const protocols = options.protocols ?? ["https", "http"];
+  const schema = formatString(label, options.messages, "url").transform(
+    (raw, ctx): UrlValue<O> => {
+      const result = parseUrl(raw, options);
+      if (result.success)
+        return (options.output === "url" ? result.data : result.data.href) as UrlValue<O>;
+      const { code, message } = urlFailure(result.reason, label, options);
+      return failWith(ctx, code, messages.validation || message);
+    }
+  );
+  return withMeta(schema, {
+    kind: "url",
+    label,
+    messages: options.messages,
+    normalize: options.stripTracking ? ["url", "punycode", "stripTracking"] : ["url", "punycode"],
+    constraints: {
+      protocols,
+      allowHosts: options.allowHosts,
+      denyHosts: options.denyHosts,
+      allowPrivateNetworks: !!options.allowPrivateNetworks,
+      allowCredentials: !!options.allowCredentials,
+      output: options.output ?? "string",
+    },
+    jsonSchema: {
+      format: "uri",
+      maxLength: options.maxLength ?? 2048,
+      pattern: `^(?:${protocols.join("|")}):`,
+    },
+  });
+};
+
+/** https-only URL; any host is allowed (use `url({ protocols: ["https"] })` for user-supplied URLs) */
 export const httpsUrl = (
   label = "URL",
   msg?: { validation?: string } | string
 ) =>
-  requiredString(label, msg)
-    .url(typeof msg === "string" ? msg : msg?.validation || `${label} ${FIELD_ERRORS.URL}`)
-    .refine((v) => v.startsWith("https://"), { message: `${label} must use https` });
+  withMeta(
+    withIssueCode(formatString(label, msg, "url").url(), "url.format").refine(
+      (v) => v.startsWith("https://"),
+      tagged("url.protocol", () => translate("https", { label }))
+    ),
+    { kind: "httpsUrl", label, messages: msg, jsonSchema: { pattern: "^https://" } }
+  );
+
+export type DomainOutput = "string" | "object";
+
+export type DomainValue<O extends DomainOutput> = O extends "object" ? DomainDetails : string;
+
+export interface DomainOptions<O extends DomainOutput = "string"> {
+  /** Accept bare public suffixes such as "co.uk" or "github.io" (default false) */
+  allowPublicSuffix?: boolean;
+  /** "string" (default): ASCII domain; "object": `DomainDetails` */
+  output?: O;
+}
 
-export const domain = (
+/** Hostname, IDN-aware ("bücher.de" -> "xn--bcher-kva.de"); bare public suffixes are rejected */
+export const domain = <O extends DomainOutput = "string">(
   label = "Domain",
-  msg?: { validation?: string } | string
+  msg?: { validation?: string } | string,
+  options: DomainOptions<O> = {}
 ) =>
-  requiredString(label, msg)
-    .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, typeof msg === "string" ? msg : msg?.validation || `${label} must be a valid domain`)
-    .transform((v) => v.trim().toLowerCase());
+  withMeta(
+    formatString(label, msg, "domain").transform(
+      (v, ctx): DomainValue<O> => {
+        const result = parseDomain(v, options);
+        if (result.success)
+          return (options.output === "object" ? result.data : result.data.domain) as DomainValue<O>;
+        return result.reason === "suffix"
+          ? failWith(
+              ctx,
+              "domain.public_suffix",
+              toMessages(msg).validation || translate("domainSuffix", { label })
+            )
+          : failWith(ctx, "domain.format", toMessages(msg).validation || translate("domain", { label }));
+      }
+    ),
+    {
+      kind: "domain",
+      label,
+      messages: msg,
+      normalize: ["trim", "lowercase", "punycode"],
+      constraints: {
+        allowPublicSuffix: !!options.allowPublicSuffix,
+        output: options.output ?? "string",
+      },
+      jsonSchema: { format: "hostname" },
+    }
+  );
 
 export const imageUrlStrict = (label = "Image URL") =>
-  httpsUrl(label).refine((v) => /\.(png|jpe?g|webp|gif|svg)(\?.*)?$/i.test(v), {
-    message: `${label} must point to an image`,
-  });
+  withMeta(
+    httpsUrl(label).refine(
+      (v) => /\.(png|jpe?g|webp|gif|svg)(\?.*)?$/i.test(v),
+      tagged("image_url.extension", () => translate("image", { label }))
+    ),
+    {
+      kind: "imageUrlStrict",
+      label,
+      jsonSchema: { pattern: "^https://.*\\.(png|jpe?g|webp|gif|svg)(\\?.*)?$" },
+    }
+  );
 
 /* ---------------------------------------
  * Cursor pagination
@@ -335,7 +1488,11 @@ export const cursorPagination = z.object({
 export const recordOf = <K extends readonly string[], V extends z.ZodTypeAny>(
   keys: K,
   value: V
-) => z.record(z.enum(keys as unknown as [K[number], ...K[number][]]), value);
+) =>
+  withMeta(
+    z.record(withIssueCode(z.enum(keys as unknown as [K[number], ...K[number][]]), "record.key"), value),
+    { kind: "recordOf", constraints: { keys } }
+  );
 
 /* ---------------------------------------
  * Brands
@@ -343,6 +1500,8 @@ export const recordOf = <K extends readonly string[], V extends z.ZodTypeAny>(
 export type Brand<T, B extends string> = T & { __brand: B };
 
 export const brandedUuid = <B extends string>(brand: B, label = brand) =>
-  requiredString(label)
-    .uuid(`${label} ${FIELD_ERRORS.UUID}`)
-    .transform((v) => v as Brand<string, B>);
+  withMeta(
+    withIssueCode(formatString(label, undefined, "uuid").uuid(), "uuid.format")
+      .transform((v) => v as Brand<string, B>),
+    { kind: "brandedUuid", label, constraints: { brand } }
+  );
@@ -0,0 +1,575 @@
+// src/factory.ts
+import { z } from "zod";
+import {
+  CustomMessages,
+  requiredString,
+  optionalString,
+  requiredNumber,
+  positiveNumber,
+  optionalNumber,
+  boolean,
+  optionalBoolean,
+  uuid,
+  optionalUUID,
+  Enum,
+  dateString,
+  optionalDate,
+  fileUrl,
+  imageUrl,
+  slug,
+  emailOrMobile,
+  filters,
+  sort,
+  search,
+  description,
+} from "./index";
+import {
+  PaginationDefaults,
+  requiredStringTrimmed,
+  emailNormalized,
+  optionalNumberCoerce,
+  booleanCoerce,
+  requiredSlugNormalized,
+  optionalSlugNormalized,
+  enumFrom,
+  enumWithLabels,
+  variants,
+  emailOrMobileNormalized,
+  pinCode,
+  pan,
+  gstin,
+  inMobile,
+  ifsc,
+  upiId,
+  aadhaar,
+  bankAccount,
+  cin,
+  tan,
+  inState,
+  inAddress,
+  phone,
+  currency,
+  money,
+  priceObject,
+  isoDateTime,
+  dateRange,
+  dateAfter,
+  isoDate,
+  zonedDateTime,
+  timeOfDay,
+  nonEmptyArrayOf,
+  uniqueArrayBy,
+  url,
+  httpsUrl,
+  domain,
+  imageUrlStrict,
+  cursorPagination,
+  buildPagination,
+  buildListQuery,
+  buildSeoFields,
+} from "./extensions";
+import { plainText, optionalPlainText, safeHtml, optionalSafeHtml } from "./sanitize";
+import { password } from "./password";
+import { file, image, fileArray, FileArrayOptions } from "./upload";
+import { buildListQueryParams } from "./query";
+import { buildCursorPagination } from "./cursor";
+import { formCoerce } from "./form-data";
+import { withLookups } from "./lookup";
+import { findMeta } from "./meta";
+import { PhoneCountry } from "./phone";
+
+/* ---------------------------------------
+ * Fragment factory
+ * `createFragments(config)` returns the fragment set with the team's
+ * defaults applied. Every call builds its own set; nothing is shared
+ * or registered globally.
+ * ------------------------------------- */
+
+export interface FragmentsConfig {
+  /** Trim every string before its checks run (passwords are left alone) */
+  trim?: boolean;
+  /** Optional fields treat "" (or whitespace, with `trim`) as missing */
+  emptyAsUndefined?: boolean;
+  /** Defaults for `paginationFields`, `listQueryFields` and the pagination builders */
+  pagination?: PaginationDefaults & { maxLimit?: number };
+  /** Pattern for `slug` and the normalized slug fragments */
+  slugPattern?: RegExp;
+  /** Length limits for `seoFieldsStrict` and `buildSeoFields` (default 60/160) */
+  seo?: { titleMaxLength?: number; descriptionMaxLength?: number };
+  /** Country for national numbers in `phone`, `emailOrMobile` and `emailOrMobileNormalized` */
+  defaultCountry?: PhoneCountry;
+  /** Label used instead of "This field" */
+  defaultLabel?: string;
+  /** Default labels per fragment, e.g. `{ uuid: "Record ID" }` */
+  labels?: Partial<Record<FragmentName, string>>;
+  /** Messages for a fragment called without any; `undefined` keeps the locale catalog */
+  messages?: (fragment: { kind: FragmentName; label: string }) => CustomMessages | string | undefined;
+}
+
+// every fragment the factory binds, resolved when the set is built
+const fragmentTable = () => ({
+  requiredString,
+  optionalString,
+  requiredNumber,
+  positiveNumber,
+  optionalNumber,
+  boolean,
+  optionalBoolean,
+  uuid,
+  optionalUUID,
+  Enum,
+  dateString,
+  optionalDate,
+  fileUrl,
+  imageUrl,
+  slug,
+  emailOrMobile,
+  requiredStringTrimmed,
+  emailNormalized,
+  optionalNumberCoerce,
+  booleanCoerce,
+  requiredSlugNormalized,
+  optionalSlugNormalized,
+  enumFrom,
+  enumWithLabels,
+  variants,
+  emailOrMobileNormalized,
+  pinCode,
+  pan,
+  gstin,
+  inMobile,
+  ifsc,
+  upiId,
+  aadhaar,
+  bankAccount,
+  cin,
+  tan,
+  inState,
+  currency,
+  money,
+  isoDateTime,
+  dateAfter,
+  isoDate,
+  zonedDateTime,
+  timeOfDay,
+  nonEmptyArrayOf,
+  uniqueArrayBy,
+  httpsUrl,
+  domain,
+  imageUrlStrict,
+  plainText,
+  optionalPlainText,
+  safeHtml,
+  optionalSafeHtml,
+  phone,
+  url,
+  password,
+  file,
+  image,
+  fileArray,
+});
+
+type FragmentTable = ReturnType<typeof fragmentTable>;
+
+export type FragmentName = keyof FragmentTable;
+
+/** Argument positions of the label and custom messages; -1 when there is none */
+const SIGNATURES: Record<FragmentName, readonly [label: number, msg: number]> = {
+  requiredString: [0, 1],
+  optionalString: [0, 1],
+  requiredNumber: [0, 1],
+  positiveNumber: [0, 1],
+  optionalNumber: [0, 1],
+  boolean: [0, 1],
+  optionalBoolean: [0, 1],
+  uuid: [0, 1],
+  optionalUUID: [0, 1],
+  Enum: [1, 2],
+  dateString: [0, 1],
+  optionalDate: [0, 1],
+  fileUrl: [0, 1],
+  imageUrl: [0, 1],
+  slug: [0, 1],
+  emailOrMobile: [0, 1],
+  requiredStringTrimmed: [0, 1],
+  emailNormalized: [0, 1],
+  optionalNumberCoerce: [0, 1],
+  booleanCoerce: [0, 1],
+  requiredSlugNormalized: [0, 1],
+  optionalSlugNormalized: [0, 1],
+  enumFrom: [1, 2],
+  enumWithLabels: [2, 3],
+  variants: [2, 3],
+  emailOrMobileNormalized: [0, 1],
+  pinCode: [0, 1],
+  pan: [0, 1],
+  gstin: [0, 1],
+  inMobile: [0, 1],
+  ifsc: [0, 1],
+  upiId: [0, 1],
+  aadhaar: [0, 1],
+  bankAccount: [0, 1],
+  cin: [0, 1],
+  tan: [0, 1],
+  inState: [0, 1],
+  currency: [0, 1],
+  money: [0, 1],
+  isoDateTime: [0, 1],
+  dateAfter: [1, -1],
+  isoDate: [0, 1],
+  zonedDateTime: [0, 1],
+  timeOfDay: [0, 1],
+  nonEmptyArrayOf: [1, -1],
+  uniqueArrayBy: [2, -1],
+  httpsUrl: [0, 1],
+  domain: [0, 1],
+  imageUrlStrict: [0, -1],
+  plainText: [0, 1],
+  optionalPlainText: [0, 1],
+  safeHtml: [0, 1],
+  optionalSafeHtml: [0, 1],
+  // label and messages live in the options object
+  phone: [-1, -1],
+  url: [-1, -1],
+  password: [-1, -1],
+  file: [-1, -1],
+  image: [-1, -1],
+  fileArray: [-1, -1],
+};
+
+/** Built-in labels, for `config.messages` when neither the caller nor the config sets one */
+const DEFAULT_LABELS: Record<FragmentName, string> = {
+  requiredString: "This field",
+  optionalString: "This field",
+  requiredNumber: "This field",
+  positiveNumber: "This field",
+  optionalNumber: "This field",
+  boolean: "This field",
+  optionalBoolean: "This field",
+  uuid: "ID",
+  optionalUUID: "ID",
+  Enum: "This field",
+  dateString: "Date",
+  optionalDate: "Date",
+  fileUrl: "File URL",
+  imageUrl: "Image URL",
+  slug: "Slug",
+  emailOrMobile: "Identifier",
+  requiredStringTrimmed: "This field",
+  emailNormalized: "Email",
+  optionalNumberCoerce: "This field",
+  booleanCoerce: "This field",
+  requiredSlugNormalized: "Slug",
+  optionalSlugNormalized: "Slug",
+  enumFrom: "This field",
+  enumWithLabels: "This field",
+  variants: "Type",
+  emailOrMobileNormalized: "Identifier",
+  pinCode: "PIN Code",
+  pan: "PAN",
+  gstin: "GSTIN",
+  inMobile: "Mobile",
+  ifsc: "IFSC",
+  upiId: "UPI ID",
+  aadhaar: "Aadhaar",
+  bankAccount: "Account Number",
+  cin: "CIN",
+  tan: "TAN",
+  inState: "State",
+  currency: "Currency",
+  money: "Amount",
+  isoDateTime: "Date",
+  dateAfter: "Date",
+  isoDate: "Date",
+  zonedDateTime: "Date",
+  timeOfDay: "Time",
+  nonEmptyArrayOf: "Items",
+  uniqueArrayBy: "Array",
+  httpsUrl: "URL",
+  domain: "Domain",
+  imageUrlStrict: "Image URL",
+  plainText: "This field",
+  optionalPlainText: "This field",
+  safeHtml: "This field",
+  optionalSafeHtml: "This field",
+  phone: "Phone",
+  url: "URL",
+  password: "Password",
+  file: "File",
+  image: "Image",
+  fileArray: "Files",
+};
+
+/** Fragments whose built-in label is "This field" */
+const GENERIC_LABEL: readonly FragmentName[] = [
+  "requiredString",
+  "optionalString",
+  "requiredNumber",
+  "positiveNumber",
+  "optionalNumber",
+  "boolean",
+  "optionalBoolean",
+  "Enum",
+  "requiredStringTrimmed",
+  "optionalNumberCoerce",
+  "booleanCoerce",
+  "enumFrom",
+  "enumWithLabels",
+  "plainText",
+  "optionalPlainText",
+  "safeHtml",
+  "optionalSafeHtml",
+];
+
+/* ---------------------------------------
+ * Schema rewriting
+ * Wrappers are cloned with their _def (metadata included), so the
+ * original fragment is never modified.
+ * ------------------------------------- */
+
+// kept on the _def so Zod's own clones (.describe ...) keep it
+const TRIM_KEY = "zodFragmentTrim";
+
+const isBlank = (value: unknown, trim: boolean) =>
+  typeof value === "string" && (trim ? value.trim() : value) === "";
+
+/** `.optional()` that also treats a blank string as missing */
+class BlankAsUndefined<T extends z.ZodTypeAny> extends z.ZodOptional<T> {
+  _parse(input: z.ParseInput): z.ParseReturnType<z.output<T> | undefined> {
+    const trim = (this._def as unknown as Record<string, unknown>)[TRIM_KEY] === true;
+    return isBlank(input.data, trim)
+      ? super._parse({ ...input, data: undefined })
+      : super._parse(input);
+  }
+}
+
+// _def key holding the wrapped schema, per wrapper type
+const INNER_KEYS: Partial<Record<z.ZodFirstPartyTypeKind, string>> = {
+  [z.ZodFirstPartyTypeKind.ZodOptional]: "innerType",
+  [z.ZodFirstPartyTypeKind.ZodNullable]: "innerType",
+  [z.ZodFirstPartyTypeKind.ZodDefault]: "innerType",
+  [z.ZodFirstPartyTypeKind.ZodCatch]: "innerType",
+  [z.ZodFirstPartyTypeKind.ZodReadonly]: "innerType",
+  [z.ZodFirstPartyTypeKind.ZodEffects]: "schema",
+  [z.ZodFirstPartyTypeKind.ZodBranded]: "type",
+  [z.ZodFirstPartyTypeKind.ZodPipeline]: "in",
+  [z.ZodFirstPartyTypeKind.ZodArray]: "type",
+};
+
+const rewrite = (schema: z.ZodTypeAny, config: FragmentsConfig): z.ZodTypeAny => {
+  const def = schema._def as Record<string, unknown>;
+  const Schema = schema.constructor as new (def: unknown) => z.ZodTypeAny;
+
+  if (schema instanceof z.ZodString) {
+    if (!config.trim || schema._def.checks.some((check) => check.kind === "trim"))
+      return schema;
+    // checks run in order, so the trim goes first
+    return new Schema({ ...schema._def, checks: [{ kind: "trim" }, ...schema._def.checks] });
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = rewriteShape(schema.shape, config);
+    return new Schema({ ...def, shape: () => shape });
+  }
+
+  const key = INNER_KEYS[def.typeName as z.ZodFirstPartyTypeKind];
+  if (!key) return schema;
+  const inner = rewrite(def[key] as z.ZodTypeAny, config);
+  if (schema instanceof z.ZodOptional && config.emptyAsUndefined)
+    return new BlankAsUndefined({ ...def, innerType: inner, [TRIM_KEY]: !!config.trim } as unknown as z.ZodOptionalDef);
+  return inner === def[key] ? schema : new Schema({ ...def, [key]: inner });
+};
+
+const rewriteShape = <T extends z.ZodRawShape>(shape: T, config: FragmentsConfig): T => {
+  const result: z.ZodRawShape = {};
+  for (const [name, field] of Object.entries(shape)) result[name] = configure(field, config);
+  return result as T;
+};
+
+/** Apply `trim` / `emptyAsUndefined` to a schema, keeping `.unique` / `.exists` */
+const configure = <S extends z.ZodTypeAny>(schema: S, config: FragmentsConfig): S => {
+  if (!config.trim && !config.emptyAsUndefined) return schema;
+  if (findMeta(schema)?.kind === "password") return schema;
+  const result = rewrite(schema, config);
+  return ("unique" in schema ? withLookups(result) : result) as S;
+};
+
+/* ---------------------------------------
+ * Binding
+ * ------------------------------------- */
+
+type AnyFragment = (...args: unknown[]) => z.ZodTypeAny;
+
+const bind = <F extends AnyFragment>(
+  name: FragmentName,
+  fragment: F,
+  config: FragmentsConfig
+): F => {
+  const [labelAt, msgAt] = SIGNATURES[name];
+  const bound = (...args: unknown[]) => {
+    if (labelAt >= 0 && args[labelAt] === undefined) {
+      const label =
+        config.labels?.[name] ?? (GENERIC_LABEL.includes(name) ? config.defaultLabel : undefined);
+      if (label !== undefined) args[labelAt] = label;
+    }
+    if (msgAt >= 0 && args[msgAt] === undefined && config.messages) {
+      const label = args[labelAt] ?? DEFAULT_LABELS[name];
+      const messages = config.messages({ kind: name, label: String(label) });
+      if (messages !== undefined) args[msgAt] = messages;
+    }
+    return configure(fragment(...args), config);
+  };
+  const coerce = (fragment as { coerce?: unknown }).coerce
+    ? { coerce: (...args: unknown[]) => formCoerce(bound(...args)) }
+    : {};
+  return Object.assign(bound, coerce) as unknown as F;
+};
+
+/** For fragments that take `{ label, messages }` options */
+const bindOptions = <F extends (options?: never) => z.ZodTypeAny>(
+  name: FragmentName,
+  fragment: F,
+  config: FragmentsConfig,
+  defaults: Record<string, unknown> = {}
+): F =>
+  ((options: Record<string, unknown> = {}) => {
+    const call = fragment as unknown as (options: Record<string, unknown>) => z.ZodTypeAny;
+    const label = options.label ?? config.labels?.[name];
+    const resolved =
+      options.messages === undefined && config.messages
+        ? config.messages({
+            kind: name,
+            label: String(label ?? DEFAULT_LABELS[name]),
+          })
+        : options.messages;
+    return configure(call({ ...defaults, ...options, label, messages: resolved }), config);
+  }) as unknown as F;
+
+/* ---------------------------------------
+ * Factory
+ * ------------------------------------- */
+
+export type Fragments = FragmentTable & {
+  paginationFields: z.ZodRawShape;
+  listQueryFields: z.ZodRawShape;
+  seoFields: z.ZodRawShape;
+  seoFieldsStrict: ReturnType<typeof buildSeoFields>;
+  filters: typeof filters;
+  sort: typeof sort;
+  search: typeof search;
+  description: typeof description;
+  title: ReturnType<typeof requiredString>;
+  inAddress: typeof inAddress;
+  priceObject: typeof priceObject;
+  dateRange: typeof dateRange;
+  cursorPagination: typeof cursorPagination;
+  buildPagination: typeof buildPagination;
+  buildListQuery: typeof buildListQuery;
+  buildListQueryParams: typeof buildListQueryParams;
+  buildCursorPagination: typeof buildCursorPagination;
+  buildSeoFields: typeof buildSeoFields;
+};
+
+/**
+ * The fragment set (base fragments, extensions and schema blocks) bound
+ * to `config`. Arguments passed at the call site still win.
+ *
+ * const f = createFragments({ trim: true, pagination: { maxLimit: 50 } });
+ * const Product = z.object({ name: f.requiredString("Name"), ...f.paginationFields });
+ */
+export const createFragments = (config: FragmentsConfig = {}): Fragments => {
+  const table = fragmentTable();
+  const set = {} as Record<string, unknown>;
+  for (const name of Object.keys(table) as FragmentName[])
+    set[name] = bind(name, table[name] as AnyFragment, config);
+
+  const phoneDefaults = config.defaultCountry ? { defaultCountry: config.defaultCountry } : undefined;
+  set.phone = bindOptions("phone", phone, config, phoneDefaults);
+  set.url = bindOptions("url", url, config);
+  set.password = bindOptions("password", password, config);
+  set.file = bindOptions("file", file, config);
+  set.image = bindOptions("image", image, config);
+  // the options come after the item schema
+  set.fileArray = ((schema: z.ZodTypeAny, options?: FileArrayOptions) =>
+    bindOptions("fileArray", (bound?: FileArrayOptions) => fileArray(schema, bound), config)(
+      options
+    )) as typeof fileArray;
+
+  const withDefaults = <F extends AnyFragment>(fn: F, at: number, value: unknown): F => {
+    if (value === undefined) return fn;
+    const wrapped = (...args: unknown[]) => {
+      if (args[at] === undefined) args[at] = value;
+      return fn(...args);
+    };
+    const coerce = "coerce" in fn ? { coerce: (...args: unknown[]) => formCoerce(wrapped(...args)) } : {};
+    return Object.assign(wrapped, coerce) as unknown as F;
+  };
+  const slugOptions = config.slugPattern ? { pattern: config.slugPattern } : undefined;
+  set.slug = withDefaults(set.slug as AnyFragment, 2, config.slugPattern);
+  set.requiredSlugNormalized = withDefaults(set.requiredSlugNormalized as AnyFragment, 2, slugOptions);
+  set.optionalSlugNormalized = withDefaults(set.optionalSlugNormalized as AnyFragment, 2, slugOptions);
+  set.emailOrMobile = withDefaults(set.emailOrMobile as AnyFragment, 2, phoneDefaults);
+  set.emailOrMobileNormalized = withDefaults(
+    set.emailOrMobileNormalized as AnyFragment,
+    2,
+    phoneDefaults
+  );
+
+  const pagination = config.pagination ?? {};
+  const maxLimit = pagination.maxLimit ?? 200;
+  const limit = z.number().int().positive();
+  set.paginationFields = {
+    page: z.number().int().positive().default(pagination.defaultPage ?? 1),
+    limit: (pagination.maxLimit ? limit.max(pagination.maxLimit) : limit).default(
+      pagination.defaultLimit ?? 10
+    ),
+  };
+  set.filters = filters;
+  set.sort = sort;
+  set.search = configure(search, config);
+  set.listQueryFields = {
+    filters,
+    sort,
+    search: set.search,
+    ...(set.paginationFields as z.ZodRawShape),
+  };
+  set.buildPagination = (max = maxLimit, defaults: PaginationDefaults = pagination) =>
+    buildPagination(max, defaults);
+  set.buildListQuery = <K extends readonly string[]>(
+    sortKeys: K,
+    max = maxLimit,
+    defaults: PaginationDefaults = pagination
+  ) => buildListQuery(sortKeys, max, defaults);
+  set.buildListQueryParams = (options: Parameters<typeof buildListQueryParams>[0] = {}) =>
+    buildListQueryParams({ ...pagination, ...options });
+  set.buildCursorPagination = <T extends z.ZodRawShape>(
+    shape: T,
+    options: Parameters<typeof buildCursorPagination>[1] = {}
+  ) => buildCursorPagination(shape, { ...pagination, ...options });
+  set.cursorPagination = configure(cursorPagination, config);
+
+  const seo = config.seo ?? {};
+  const seoFragment = set.optionalString as typeof optionalString;
+  set.seoFields = {
+    seo_title: seoFragment("SEO Title"),
+    seo_description: seoFragment("SEO Description"),
+    seo_image: seoFragment("SEO Image"),
+  };
+  set.buildSeoFields = (limits: Parameters<typeof buildSeoFields>[0] = seo) =>
+    rewriteShape(buildSeoFields(limits), config);
+  set.seoFieldsStrict = rewriteShape(
+    buildSeoFields({
+      titleMaxLength: seo.titleMaxLength ?? 60,
+      descriptionMaxLength: seo.descriptionMaxLength ?? 160,
+    }),
+    config
+  );
+
+  set.description = configure(description, config);
+  set.title = (set.requiredString as typeof requiredString)("Title");
+  set.inAddress = (options?: Parameters<typeof inAddress>[0]) =>
+    configure(inAddress(options), config);
+  set.priceObject = configure(priceObject, config);
+  set.dateRange = configure(dateRange, config);
+
+  return set as Fragments;
+};
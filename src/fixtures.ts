@@ -0,0 +1,60 @@
+// src/fixtures.ts
+/* ---------------------------------------
+ * Sample identifiers for tests and docs
+ * Valid values pass the fragment with default options (input forms,
+ * not normalized output); invalid ones fail it. None are real records.
+ * ------------------------------------- */
+
+export interface IdentifierFixtures {
+  valid: readonly string[];
+  invalid: readonly string[];
+}
+
+export const IN_ID_FIXTURES: Readonly<
+  Record<
+    "pinCode" | "pan" | "gstin" | "ifsc" | "upiId" | "aadhaar" | "bankAccount" | "cin" | "tan",
+    IdentifierFixtures
+  >
+> = {
+  pinCode: {
+    valid: ["560001", "110 001", "400703"],
+    invalid: ["56001", "012345", "990001", "56000A"],
+  },
+  pan: {
+    valid: ["ABCPE1234F", "aaapl1234c"],
+    // 4th character must be a holder type
+    invalid: ["ABCDE1234F", "ABCP1234F", "ABCPE12345"],
+  },
+  gstin: {
+    valid: ["27AAPFU0939F1ZV", "07aaacr5055k1z9"],
+    // wrong check digit, PAN with an invalid holder type, unknown state code
+    invalid: ["27AAPFU0939F1ZX", "29ABCDE1234F1ZW", "00AAPFU0939F1ZV"],
+  },
+  ifsc: {
+    valid: ["SBIN0000300", "hdfc0001234", "KKBK0ABC123"],
+    // 5th character must be 0
+    invalid: ["SBIN1000300", "SBI0000300", "SBIN00003000"],
+  },
+  upiId: {
+    valid: ["ravi.kumar@okhdfcbank", "9876543210@ybl", "Shop_42@Paytm"],
+    invalid: ["@ybl", "ravi@", "ravi kumar@ybl", "ravi@@ybl"],
+  },
+  aadhaar: {
+    valid: ["2341 2341 2346", "499612345671", "9876-5432-1012"],
+    // starts with 1, wrong Verhoeff digit, 11 digits
+    invalid: ["123412341234", "234123412348", "23412341234"],
+  },
+  bankAccount: {
+    valid: ["000123456789", "1234 5678 9012 345", "123456789"],
+    // 8 digits, letters, 19 digits
+    invalid: ["12345678", "12AB345678", "1234567890123456789"],
+  },
+  cin: {
+    valid: ["L17110MH1973PLC019786", "u72900ka2000ptc027000"],
+    invalid: ["L17110MH1973PLC01978", "X17110MH1973PLC019786", "L1711MH1973PLC0197861"],
+  },
+  tan: {
+    valid: ["MUMA12345B", "delh01234c"],
+    invalid: ["MUM12345B", "MUMA1234AB", "MUMA123456"],
+  },
+};
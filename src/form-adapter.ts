@@ -0,0 +1,290 @@
+// src/form-adapter.ts
+import { z } from "zod";
+import { FieldDescriptor, describeSchema, findMeta, unwrapSchema } from "./meta";
+import { toJsonSchema } from "./json-schema";
+import { FormattedIssue, formatIssues } from "./errors";
+import { findRules } from "./rules";
+import { formCoerce } from "./form-data";
+
+/* ---------------------------------------
+ * Client-side form adapter
+ * `formAdapter(schema)` turns a fragment object schema into input
+ * props and options, and validates one field on blur together with
+ * the cross-field rules that involve it.
+ * ------------------------------------- */
+
+export type FormInputType =
+  | "text"
+  | "textarea"
+  | "email"
+  | "tel"
+  | "url"
+  | "password"
+  | "number"
+  | "date"
+  | "time"
+  | "datetime-local"
+  | "checkbox"
+  | "select"
+  | "file";
+
+/** Named like the DOM properties, so they work as React props or with `Object.assign(input, props)` */
+export interface FormFieldProps {
+  name: string;
+  type: FormInputType;
+  required: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  inputMode?: "text" | "email" | "tel" | "url" | "numeric" | "decimal";
+  min?: number | string;
+  max?: number | string;
+  step?: number;
+  multiple?: boolean;
+  autoComplete?: string;
+  /** MIME types and extensions of `file` / `image` fields */
+  accept?: string;
+}
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FormField {
+  /** Dotted path, e.g. "address.pin" */
+  name: string;
+  label?: string;
+  /** Fragment kind, or the Zod type for plain schemas */
+  kind: string;
+  props: FormFieldProps;
+  /** For `Enum`, `enumFrom` and `enumWithLabels` fields (and arrays of them) */
+  options?: FormFieldOption[];
+  schema: z.ZodTypeAny;
+}
+
+export interface FieldValidation {
+  valid: boolean;
+  /** First message for the field */
+  error?: string;
+  /** Issues of the field and of the rules that involve it, which may be on other fields */
+  issues: FormattedIssue[];
+}
+
+export interface FormAdapterOptions {
+  /** Coerce string values ("12", "on") before validating, as `formCoerce` does */
+  coerce?: boolean;
+}
+
+export interface FormAdapter {
+  /** Leaf fields by dotted name, in schema order */
+  fields: Record<string, FormField>;
+  /** Validate one field (or a top-level group); `allValues` feeds the cross-field rules. Throws on unknown names */
+  validateField: (name: string, value: unknown, allValues?: Record<string, unknown>) => FieldValidation;
+}
+
+const TYPE_BY_KIND: Record<string, FormInputType> = {
+  password: "password",
+  phone: "tel",
+  inMobile: "tel",
+  emailNormalized: "email",
+  url: "url",
+  httpsUrl: "url",
+  fileUrl: "url",
+  imageUrl: "url",
+  imageUrlStrict: "url",
+  isoDate: "date",
+  dateString: "date",
+  optionalDate: "date",
+  timeOfDay: "time",
+  isoDateTime: "datetime-local",
+  safeHtml: "textarea",
+  optionalSafeHtml: "textarea",
+  file: "file",
+  image: "file",
+  fileArray: "file",
+};
+
+const TYPE_BY_FORMAT: Record<string, FormInputType> = {
+  email: "email",
+  uri: "url",
+  date: "date",
+};
+
+const INPUT_MODES: Partial<Record<FormInputType, FormFieldProps["inputMode"]>> = {
+  email: "email",
+  tel: "tel",
+  url: "url",
+};
+
+const NUMERIC_KINDS = ["pinCode", "aadhaar", "bankAccount"];
+
+// the JSON Schema keywords the adapter reads
+interface JsonField {
+  type?: string;
+  enum?: unknown[];
+  items?: { enum?: unknown[] };
+}
+
+const inputType = (descriptor: FieldDescriptor, json: JsonField): FormInputType => {
+  const { kind, constraints } = descriptor;
+  if (constraints.multiline) return "textarea";
+  if (TYPE_BY_KIND[kind]) return TYPE_BY_KIND[kind];
+  if (json.enum || json.items?.enum) return "select";
+  if (json.type === "boolean") return "checkbox";
+  if (json.type === "number" || json.type === "integer") return "number";
+  return TYPE_BY_FORMAT[String(constraints.format)] ?? "text";
+};
+
+const optionsOf = (descriptor: FieldDescriptor, json: JsonField): FormFieldOption[] | undefined => {
+  const values = json.enum ?? json.items?.enum;
+  if (!values) return undefined;
+  const labels = (descriptor.constraints.labels ?? {}) as Record<string, string>;
+  return values.map((value) => ({ value: String(value), label: labels[String(value)] ?? String(value) }));
+};
+
+const toField = (descriptor: FieldDescriptor): FormField => {
+  const json = toJsonSchema(descriptor.schema, { target: "openApi", errorMessages: false }) as JsonField;
+  const { constraints, kind } = descriptor;
+  const type = inputType(descriptor, json);
+  const props: FormFieldProps = {
+    name: descriptor.path.join("."),
+    type,
+    required: descriptor.required && type !== "checkbox",
+  };
+  if (type !== "select") {
+    if (typeof constraints.minLength === "number" && constraints.minLength > 0)
+      props.minLength = constraints.minLength;
+    if (typeof constraints.maxLength === "number") props.maxLength = constraints.maxLength;
+    if (typeof constraints.pattern === "string") props.pattern = constraints.pattern;
+  }
+  if (type === "number") {
+    if (typeof constraints.minimum === "number") props.min = constraints.minimum;
+    if (typeof constraints.maximum === "number") props.max = constraints.maximum;
+    props.step = json.type === "integer" ? 1 : (constraints.multipleOf as number | undefined);
+  }
+  if (type === "date" && typeof constraints.min === "string" && /^\d{4}-\d{2}-\d{2}$/.test(constraints.min))
+    props.min = constraints.min;
+  if (type === "date" && typeof constraints.max === "string" && /^\d{4}-\d{2}-\d{2}$/.test(constraints.max))
+    props.max = constraints.max;
+  if (json.type === "array") props.multiple = true;
+  if (INPUT_MODES[type]) props.inputMode = INPUT_MODES[type];
+  else if (NUMERIC_KINDS.includes(kind)) props.inputMode = "numeric";
+  else if (kind === "money") props.inputMode = "decimal";
+  if (kind === "password") props.autoComplete = "new-password";
+  if (type === "file") {
+    const base = unwrapSchema(descriptor.schema);
+    const item = findMeta(base instanceof z.ZodArray ? base.element : descriptor.schema)?.constraints ?? {};
+    const accept = [
+      ...((item.mimeTypes as string[] | undefined) ?? []),
+      ...((item.extensions as string[] | undefined) ?? []).map((extension) => `.${extension}`),
+    ];
+    if (accept.length) props.accept = accept.join(",");
+  }
+  // drop unset keys so the props spread cleanly
+  for (const key of Object.keys(props) as (keyof FormFieldProps)[])
+    if (props[key] === undefined) delete props[key];
+
+  return {
+    name: props.name,
+    label: descriptor.label,
+    kind,
+    props,
+    options: optionsOf(descriptor, json),
+    schema: descriptor.schema,
+  };
+};
+
+const leaves = (descriptors: FieldDescriptor[]): FieldDescriptor[] =>
+  descriptors.flatMap((descriptor) => (descriptor.fields ? leaves(descriptor.fields) : [descriptor]));
+
+const startsWith = (path: (string | number)[], prefix: string[]) =>
+  prefix.every((segment, i) => String(path[i]) === segment);
+
+const withValue = (
+  values: Record<string, unknown>,
+  path: string[],
+  value: unknown
+): Record<string, unknown> => {
+  const [key, ...rest] = path;
+  const current = values[key];
+  return {
+    ...values,
+    [key]: rest.length
+      ? withValue(typeof current === "object" && current !== null ? (current as Record<string, unknown>) : {}, rest, value)
+      : value,
+  };
+};
+
+/**
+ * Input props, options and per-field validation for an object schema
+ * built from fragments (refined and `withRules` schemas work too).
+ */
+export const formAdapter = (schema: z.ZodTypeAny, options: FormAdapterOptions = {}): FormAdapter => {
+  const base = unwrapSchema(schema);
+  const shape: z.ZodRawShape = base instanceof z.ZodObject ? base.shape : {};
+  const fields: Record<string, FormField> = {};
+  for (const descriptor of leaves(describeSchema(schema))) {
+    const field = toField(descriptor);
+    fields[field.name] = field;
+  }
+
+  const fieldSchema = (key: string) =>
+    shape[key] && (options.coerce ? formCoerce(shape[key]) : shape[key]);
+  const parseField = (key: string, value: unknown) => {
+    try {
+      return fieldSchema(key)?.safeParse(value);
+    } catch {
+      // async checks (`.unique`, `.exists`) run when the form is submitted
+      return undefined;
+    }
+  };
+  const label = (key: string) => (shape[key] && findMeta(shape[key])?.label) || key;
+  const rules = findRules(schema);
+
+  const validateField = (
+    name: string,
+    value: unknown,
+    allValues: Record<string, unknown> = {}
+  ): FieldValidation => {
+    // a typo would otherwise validate nothing and report the field as valid
+    if (!fields[name] && !shape[name]) throw new RangeError(`Unknown form field: ${name}`);
+    const path = name.split(".");
+    const [key] = path;
+    const values = withValue(allValues, path, value);
+    const issues: z.ZodIssue[] = [];
+
+    // nested fields are validated with their top-level object, for its own refines
+    const own = parseField(key, values[key]);
+    if (own && !own.success)
+      issues.push(
+        ...own.error.issues
+          .map((issue) => ({ ...issue, path: [key, ...issue.path] }))
+          .filter((issue) => startsWith(issue.path, path))
+      );
+
+    for (const rule of rules) {
+      if (!rule.fields.includes(key)) continue;
+      // rules see parsed values; skip a rule while one of its fields is invalid on its own
+      const parsed: Record<string, unknown> = { ...values };
+      const ready = rule.fields.every((field) => {
+        const result = parseField(field, values[field]);
+        if (result?.success) parsed[field] = result.data;
+        return !result || result.success;
+      });
+      if (!ready) continue;
+      const ctx: z.RefinementCtx = {
+        path: [],
+        addIssue: (issue) =>
+          issues.push({ ...issue, path: issue.path ?? [], message: issue.message ?? "" } as z.ZodIssue),
+      };
+      rule.check(parsed, { ctx, label });
+    }
+
+    const formatted = formatIssues(new z.ZodError(issues));
+    const error = formatted.find((issue) => startsWith(issue.path, path))?.message;
+    return { valid: error === undefined, error, issues: formatted };
+  };
+
+  return { fields, validateField };
+};
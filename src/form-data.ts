@@ -0,0 +1,196 @@
+// src/form-data.ts
+import { z } from "zod";
+import { findMeta, withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Form bodies -> nested objects
+ * "tags[]=a&tags[]=b", "address[city]=Pune", "items[0].qty=2" and
+ * repeated keys become arrays / nested objects before validation.
+ * ------------------------------------- */
+export type FormInput =
+  | FormData
+  | URLSearchParams
+  | string
+  | Record<string, unknown>;
+
+type Container = Record<string, unknown> | unknown[];
+
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+const keyPath = (key: string) => key.replace(/\]/g, "").split(/\[|\./);
+
+/** Highest array index a form key may name; larger ones would allocate huge sparse arrays */
+export const MAX_FORM_INDEX = 1000;
+
+const isIndex = (segment: string) =>
+  segment === "" || (/^\d+$/.test(segment) && Number(segment) <= MAX_FORM_INDEX);
+
+const assign = (target: Container, path: string[], value: unknown) => {
+  if (path.some((segment) => UNSAFE_SEGMENTS.includes(segment))) return;
+  // arrays take numeric-string and "" (append) slots the same way
+  let current = target as Record<string | number, unknown>;
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    // "items[5000]" after "items[0]": drop the entry rather than grow the array
+    if (Array.isArray(current) && !isIndex(segment)) return;
+    const slot = segment === "" && Array.isArray(current) ? (current as unknown[]).length : segment;
+    if (i === path.length - 1) {
+      const existing = current[slot];
+      current[slot] =
+        existing === undefined
+          ? value
+          : ([] as unknown[]).concat(existing, value);
+      return;
+    }
+    if (current[slot] === undefined || typeof current[slot] !== "object")
+      current[slot] = isIndex(path[i + 1]) ? [] : {};
+    current = current[slot] as Record<string | number, unknown>;
+  }
+};
+
+/** Parse form-encoded input into a nested object, without coercing values */
+export const parseFormBody = (input: FormInput | unknown): Record<string, unknown> => {
+  const body: Record<string, unknown> = {};
+  const add = (value: unknown, key: string) => assign(body, keyPath(key), value);
+
+  if (typeof input === "string") new URLSearchParams(input.replace(/^\?/, "")).forEach(add);
+  else if (input && typeof (input as URLSearchParams).getAll === "function")
+    (input as URLSearchParams).forEach(add);
+  else if (input && typeof input === "object")
+    for (const [key, value] of Object.entries(input)) add(value, key);
+  return body;
+};
+
+/* ---------------------------------------
+ * Coercion guided by the target schema
+ * ------------------------------------- */
+const TRUE_VALUES = ["on", "true", "1", "yes"];
+const FALSE_VALUES = ["off", "false", "0", "no"];
+
+/** "" and the empty File browsers send for an untouched file input */
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === "" ||
+  (typeof Blob !== "undefined" &&
+    value instanceof Blob &&
+    value.size === 0 &&
+    !(value as File).name);
+
+const toNumber = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : value;
+};
+
+const toBoolean = (value: unknown) => {
+  // unchecked checkboxes are not submitted at all
+  if (value === undefined || value === "") return false;
+  if (value === 1 || value === 0) return value === 1;
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return value;
+};
+
+const innerType = (schema: z.ZodTypeAny) => (schema._def as { innerType: z.ZodTypeAny }).innerType;
+
+const coerceValue = (schema: z.ZodTypeAny, value: unknown): unknown => {
+  switch ((schema._def as { typeName: z.ZodFirstPartyTypeKind }).typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return isBlank(value) ? undefined : coerceValue(innerType(schema), value);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return isBlank(value) ? null : coerceValue(innerType(schema), value);
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return coerceValue(innerType(schema), value);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return coerceValue((schema as z.ZodBranded<z.ZodTypeAny, string>).unwrap(), value);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return coerceValue((schema as z.ZodEffects<z.ZodTypeAny>).innerType(), value);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return coerceValue((schema as z.ZodPipeline<z.ZodTypeAny, z.ZodTypeAny>)._def.in, value);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return coerceValue((schema as z.ZodLazy<z.ZodTypeAny>).schema, value);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return toNumber(value);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return toBoolean(value);
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      if (isBlank(value)) return undefined;
+      return typeof value === "string" ? new Date(value.trim()) : value;
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const literal = (schema as z.ZodLiteral<unknown>).value;
+      if (typeof literal === "number") return toNumber(value);
+      if (typeof literal === "boolean") return toBoolean(value);
+      return isBlank(value) ? undefined : value;
+    }
+    case z.ZodFirstPartyTypeKind.ZodString:
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return isBlank(value) ? undefined : value;
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      // nothing selected in a multi-select / checkbox group
+      if (isBlank(value)) return [];
+      const items = Array.isArray(value) ? value : [value];
+      return items.map((item) => coerceValue((schema as z.ZodArray<z.ZodTypeAny>).element, item));
+    }
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const { items, rest } = (schema as z.AnyZodTuple)._def;
+      return Array.isArray(value)
+        ? value.map((item, i) => {
+            const itemSchema: z.ZodTypeAny | null = items[i] ?? rest;
+            return itemSchema ? coerceValue(itemSchema, item) : item;
+          })
+        : value;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      if (isBlank(value)) value = {};
+      if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [key, field] of Object.entries((schema as z.AnyZodObject).shape)) {
+        const coerced = coerceValue(field as z.ZodTypeAny, result[key]);
+        if (coerced === undefined) delete result[key];
+        else result[key] = coerced;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+      const valueSchema = (schema as z.ZodRecord).valueSchema;
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, coerceValue(valueSchema, item)]));
+    }
+    default:
+      return value;
+  }
+};
+
+/* ---------------------------------------
+ * Public wrappers
+ * ------------------------------------- */
+
+/**
+ * Coerce a single form value for `schema`: "12" -> 12, "on" -> true,
+ * "" -> undefined (so required fields report "is required").
+ */
+export const formCoerce = <T extends z.ZodTypeAny>(schema: T) =>
+  withMeta(
+    z.preprocess((value) => coerceValue(schema, value), schema),
+    { kind: findMeta(schema)?.kind ?? "formCoerce", normalize: ["coerce"] }
+  );
+
+/**
+ * Accept a `FormData`, `URLSearchParams`, query string or flat record and
+ * validate it against `schema` after nesting keys and coercing values.
+ */
+export const fromFormData = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((input) => coerceValue(schema, parseFormBody(input)), schema);
+
+/** Attach `.coerce(...)`, the same fragment wrapped in `formCoerce` */
+export const withCoerce = <F extends (...args: never[]) => z.ZodTypeAny>(fragment: F) =>
+  Object.assign(fragment, {
+    coerce: (...args: Parameters<F>) => formCoerce(fragment(...args) as ReturnType<F>),
+  });
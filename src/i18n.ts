@@ -0,0 +1,569 @@
+// src/i18n.ts
+import { z } from "zod";
+
+/* ---------------------------------------
+ * Message keys & catalogs
+ * Templates use {label}, {min}, {max}, {options} ... placeholders.
+ * ------------------------------------- */
+export type MessageKey =
+  | "required"
+  | "string"
+  | "number"
+  | "boolean"
+  | "uuid"
+  | "enum"
+  | "date"
+  | "url"
+  | "slug"
+  | "slugPattern"
+  | "mobile"
+  | "email"
+  | "emailOrMobile"
+  | "contact"
+  | "positive"
+  | "min"
+  | "max"
+  | "maxLength"
+  | "arrayMin"
+  | "unique"
+  | "pinCode"
+  | "pan"
+  | "gstin"
+  | "gstinState"
+  | "gstinPan"
+  | "gstinChecksum"
+  | "currency"
+  | "https"
+  | "domain"
+  | "image"
+  | "dateAfter"
+  | "filterField"
+  | "filterOperator"
+  | "between"
+  | "cursor"
+  | "cursorExpired"
+  | "phone"
+  | "phoneCountry"
+  | "phoneType"
+  | "dateTime"
+  | "time"
+  | "dateMin"
+  | "dateMax"
+  | "dateSpan"
+  | "fieldMatch"
+  | "fieldDiffers"
+  | "fieldLess"
+  | "fieldLessOrEqual"
+  | "fieldGreater"
+  | "fieldGreaterOrEqual"
+  | "atLeastOne"
+  | "exclusive"
+  | "minLength"
+  | "unsafeUrl"
+  | "disallowedTags"
+  | "urlProtocol"
+  | "urlHost"
+  | "urlPrivate"
+  | "urlCredentials"
+  | "domainSuffix"
+  | "taken"
+  | "notFound"
+  | "lookupTimeout"
+  | "inState"
+  | "pinRegion"
+  | "pinState"
+  | "ifsc"
+  | "upiId"
+  | "upiHandle"
+  | "aadhaar"
+  | "aadhaarChecksum"
+  | "bankAccount"
+  | "bankAccountLength"
+  | "cin"
+  | "tan"
+  | "passwordLowercase"
+  | "passwordUppercase"
+  | "passwordDigit"
+  | "passwordSymbol"
+  | "passwordRepeat"
+  | "passwordForbidden"
+  | "passwordCommon"
+  | "passwordEntropy"
+  | "passwordPersonal"
+  | "object"
+  | "json"
+  | "form"
+  | "file"
+  | "fileList"
+  | "fileEmpty"
+  | "fileSize"
+  | "fileType"
+  | "fileContent"
+  | "fileExtension"
+  | "fileExtensionMismatch"
+  | "fileCount"
+  | "fileTotalSize"
+  | "imageDimensions"
+  | "imageWidth"
+  | "imageHeight"
+  | "imageAspectRatio";
+
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export type MessageParams = Record<
+  string,
+  string | number | readonly (string | number)[] | undefined
+>;
+
+export const DEFAULT_LOCALE = "en";
+
+const en: Record<MessageKey, string> = {
+  required: "{label} is required",
+  string: "{label} must be a string",
+  number: "{label} must be a number",
+  boolean: "{label} must be a boolean",
+  uuid: "{label} must be a valid UUID",
+  enum: "{label} must be one of: {options}",
+  date: "{label} must be a valid date",
+  url: "{label} must be a valid URL",
+  slug: "{label} must contain only lowercase letters, numbers and hyphens",
+  slugPattern: "{label} is not in a valid format",
+  mobile: "{label} must be a valid 10-digit mobile number",
+  email: "{label} must be a valid email address",
+  emailOrMobile:
+    "{label} must be a valid email address or must be a valid 10-digit mobile number",
+  contact: "{label} must be a valid email or mobile",
+  positive: "{label} must be positive",
+  min: "{label} must be >= {min}",
+  max: "{label} must be <= {max}",
+  maxLength: "{label} should be <= {max} chars",
+  arrayMin: "{label} must contain at least {min} item",
+  unique: "{label} must have unique {key}",
+  pinCode: "{label} must be 6 digits",
+  pan: "{label} must be a valid PAN",
+  gstin: "{label} must be a valid GSTIN",
+  gstinState: "{label} has an invalid state code",
+  gstinPan: "{label} contains an invalid PAN",
+  gstinChecksum: "{label} has an invalid check digit",
+  currency: "{label} must be a valid ISO 4217 currency code",
+  https: "{label} must use https",
+  domain: "{label} must be a valid domain",
+  image: "{label} must point to an image",
+  dateAfter: "{label} must be after {min}",
+  filterField: "{label} cannot be filtered",
+  filterOperator: "{label} does not support \"{op}\" (allowed: {options})",
+  between: "{label} needs exactly two values",
+  cursor: "{label} is invalid",
+  cursorExpired: "{label} has expired",
+  phone: "{label} must be a valid phone number",
+  phoneCountry: "{label} must be a phone number from: {options}",
+  phoneType: "{label} must be a {options} number",
+  dateTime: "{label} must be an ISO 8601 date-time with a UTC offset",
+  time: "{label} must be a valid time (HH:mm)",
+  dateMin: "{label} must be on or after {min}",
+  dateMax: "{label} must be on or before {max}",
+  dateSpan: "{label} must be within {max} of {other}",
+  fieldMatch: "{label} must match {other}",
+  fieldDiffers: "{label} must be different from {other}",
+  fieldLess: "{label} must be less than {other}",
+  fieldLessOrEqual: "{label} must be less than or equal to {other}",
+  fieldGreater: "{label} must be greater than {other}",
+  fieldGreaterOrEqual: "{label} must be greater than or equal to {other}",
+  atLeastOne: "At least one of {options} is required",
+  exclusive: "{label} cannot be combined with {other}",
+  minLength: "{label} should be >= {min} chars",
+  unsafeUrl: "{label} contains a link that is not allowed",
+  disallowedTags: "{label} contains only markup that is not allowed",
+  urlProtocol: "{label} must use one of: {options}",
+  urlHost: "{label} must point to an allowed host",
+  urlPrivate: "{label} must not point to a private or local network address",
+  urlCredentials: "{label} must not contain a username or password",
+  domainSuffix: "{label} must be a registrable domain, not a public suffix",
+  taken: "{label} is already taken",
+  notFound: "{label} does not exist",
+  lookupTimeout: "{label} could not be verified, please try again",
+  inState: "{label} must be an Indian state or union territory",
+  pinRegion: "{label} is not a valid Indian PIN code",
+  pinState: "{label} does not belong to {state}",
+  ifsc: "{label} must be a valid IFSC code",
+  upiId: "{label} must be a valid UPI ID",
+  upiHandle: "{label} must use one of: {options}",
+  aadhaar: "{label} must be a valid 12-digit Aadhaar number",
+  aadhaarChecksum: "{label} is not a valid Aadhaar number",
+  bankAccount: "{label} must contain only digits",
+  bankAccountLength: "{label} must be {min} to {max} digits",
+  cin: "{label} must be a valid CIN",
+  tan: "{label} must be a valid TAN",
+  passwordLowercase: "{label} must contain at least {min} lowercase letter(s)",
+  passwordUppercase: "{label} must contain at least {min} uppercase letter(s)",
+  passwordDigit: "{label} must contain at least {min} digit(s)",
+  passwordSymbol: "{label} must contain at least {min} symbol(s)",
+  passwordRepeat: "{label} must not repeat a character more than {max} times in a row",
+  passwordForbidden: "{label} must not contain \"{word}\"",
+  passwordCommon: "{label} is too common",
+  passwordEntropy: "{label} is too easy to guess",
+  passwordPersonal: "{label} must not contain your {other}",
+  object: "{label} must be an object",
+  json: "{label} must be valid JSON",
+  form: "{label} must be valid form data",
+  file: "{label} must be a file",
+  fileList: "{label} must be a list of files",
+  fileEmpty: "{label} is empty",
+  fileSize: "{label} must be at most {max}",
+  fileType: "{label} must be one of: {options}",
+  fileContent: "{label} content does not match its file type",
+  fileExtension: "{label} must have one of these extensions: {options}",
+  fileExtensionMismatch: "{label} content does not match its .{extension} extension",
+  fileCount: "{label} must contain at most {max} files",
+  fileTotalSize: "{label} must be at most {max} in total",
+  imageDimensions: "{label} dimensions could not be read",
+  imageWidth: "{label} must be at most {max} pixels wide",
+  imageHeight: "{label} must be at most {max} pixels high",
+  imageAspectRatio: "{label} must have a {ratio} aspect ratio",
+};
+
+const hi: MessageCatalog = {
+  required: "{label} आवश्यक है",
+  string: "{label} टेक्स्ट होना चाहिए",
+  number: "{label} एक संख्या होनी चाहिए",
+  boolean: "{label} हाँ/नहीं (boolean) होना चाहिए",
+  uuid: "{label} एक मान्य UUID होना चाहिए",
+  enum: "{label} इनमें से एक होना चाहिए: {options}",
+  date: "{label} एक मान्य तिथि होनी चाहिए",
+  url: "{label} एक मान्य URL होना चाहिए",
+  slug: "{label} में केवल छोटे अक्षर, अंक और हाइफ़न हो सकते हैं",
+  slugPattern: "{label} का प्रारूप मान्य नहीं है",
+  mobile: "{label} एक मान्य 10-अंकीय मोबाइल नंबर होना चाहिए",
+  email: "{label} एक मान्य ईमेल पता होना चाहिए",
+  emailOrMobile:
+    "{label} एक मान्य ईमेल पता या 10-अंकीय मोबाइल नंबर होना चाहिए",
+  contact: "{label} एक मान्य ईमेल या मोबाइल नंबर होना चाहिए",
+  positive: "{label} धनात्मक होना चाहिए",
+  min: "{label} कम से कम {min} होना चाहिए",
+  max: "{label} अधिकतम {max} होना चाहिए",
+  maxLength: "{label} अधिकतम {max} अक्षरों का होना चाहिए",
+  arrayMin: "{label} में कम से कम {min} आइटम होना चाहिए",
+  unique: "{label} में {key} अद्वितीय होना चाहिए",
+  pinCode: "{label} 6 अंकों का होना चाहिए",
+  pan: "{label} एक मान्य PAN होना चाहिए",
+  gstin: "{label} एक मान्य GSTIN होना चाहिए",
+  gstinState: "{label} में राज्य कोड अमान्य है",
+  gstinPan: "{label} में PAN अमान्य है",
+  gstinChecksum: "{label} का चेक अंक अमान्य है",
+  currency: "{label} एक मान्य ISO 4217 मुद्रा कोड होना चाहिए",
+  https: "{label} में https का उपयोग होना चाहिए",
+  domain: "{label} एक मान्य डोमेन होना चाहिए",
+  image: "{label} किसी छवि का URL होना चाहिए",
+  dateAfter: "{label} {min} के बाद की होनी चाहिए",
+  filterField: "{label} पर फ़िल्टर नहीं किया जा सकता",
+  filterOperator: "{label} \"{op}\" का समर्थन नहीं करता (अनुमत: {options})",
+  between: "{label} के लिए ठीक दो मान चाहिए",
+  cursor: "{label} अमान्य है",
+  cursorExpired: "{label} की समय-सीमा समाप्त हो गई है",
+  phone: "{label} एक मान्य फ़ोन नंबर होना चाहिए",
+  phoneCountry: "{label} इनमें से किसी देश का फ़ोन नंबर होना चाहिए: {options}",
+  phoneType: "{label} {options} नंबर होना चाहिए",
+  dateTime: "{label} UTC ऑफ़सेट सहित एक मान्य ISO 8601 दिनांक-समय होना चाहिए",
+  time: "{label} एक मान्य समय (HH:mm) होना चाहिए",
+  dateMin: "{label} {min} को या उसके बाद की होनी चाहिए",
+  dateMax: "{label} {max} को या उससे पहले की होनी चाहिए",
+  dateSpan: "{label} {other} से {max} के भीतर होनी चाहिए",
+  fieldMatch: "{label} {other} से मेल खाना चाहिए",
+  fieldDiffers: "{label} {other} से अलग होना चाहिए",
+  fieldLess: "{label} {other} से कम होना चाहिए",
+  fieldLessOrEqual: "{label} {other} से कम या बराबर होना चाहिए",
+  fieldGreater: "{label} {other} से अधिक होना चाहिए",
+  fieldGreaterOrEqual: "{label} {other} से अधिक या बराबर होना चाहिए",
+  atLeastOne: "{options} में से कम से कम एक आवश्यक है",
+  exclusive: "{label} को {other} के साथ नहीं दिया जा सकता",
+  minLength: "{label} कम से कम {min} अक्षरों का होना चाहिए",
+  unsafeUrl: "{label} में ऐसा लिंक है जिसकी अनुमति नहीं है",
+  disallowedTags: "{label} में केवल ऐसा मार्कअप है जिसकी अनुमति नहीं है",
+  urlProtocol: "{label} में इनमें से कोई प्रोटोकॉल होना चाहिए: {options}",
+  urlHost: "{label} का होस्ट अनुमत नहीं है",
+  urlPrivate: "{label} निजी या लोकल नेटवर्क पते की ओर इशारा नहीं कर सकता",
+  urlCredentials: "{label} में यूज़रनेम या पासवर्ड नहीं होना चाहिए",
+  domainSuffix: "{label} पंजीकरण योग्य डोमेन होना चाहिए, सार्वजनिक सफ़िक्स नहीं",
+  taken: "{label} पहले से उपयोग में है",
+  notFound: "{label} मौजूद नहीं है",
+  lookupTimeout: "{label} की जाँच नहीं हो सकी, कृपया फिर से प्रयास करें",
+  inState: "{label} भारत का कोई राज्य या केंद्र शासित प्रदेश होना चाहिए",
+  pinRegion: "{label} मान्य भारतीय पिन कोड नहीं है",
+  pinState: "{label} {state} का नहीं है",
+  ifsc: "{label} मान्य IFSC कोड होना चाहिए",
+  upiId: "{label} मान्य UPI ID होनी चाहिए",
+  upiHandle: "{label} इनमें से किसी का होना चाहिए: {options}",
+  aadhaar: "{label} मान्य 12 अंकों का आधार नंबर होना चाहिए",
+  aadhaarChecksum: "{label} मान्य आधार नंबर नहीं है",
+  bankAccount: "{label} में केवल अंक होने चाहिए",
+  bankAccountLength: "{label} {min} से {max} अंकों का होना चाहिए",
+  cin: "{label} मान्य CIN होना चाहिए",
+  tan: "{label} मान्य TAN होना चाहिए",
+  passwordLowercase: "{label} में कम से कम {min} छोटा अक्षर होना चाहिए",
+  passwordUppercase: "{label} में कम से कम {min} बड़ा अक्षर होना चाहिए",
+  passwordDigit: "{label} में कम से कम {min} अंक होना चाहिए",
+  passwordSymbol: "{label} में कम से कम {min} चिह्न होना चाहिए",
+  passwordRepeat: "{label} में कोई अक्षर लगातार {max} से अधिक बार नहीं होना चाहिए",
+  passwordForbidden: "{label} में \"{word}\" नहीं होना चाहिए",
+  passwordCommon: "{label} बहुत सामान्य है",
+  passwordEntropy: "{label} का अनुमान लगाना बहुत आसान है",
+  passwordPersonal: "{label} में आपका {other} नहीं होना चाहिए",
+  object: "{label} एक ऑब्जेक्ट होना चाहिए",
+  json: "{label} मान्य JSON होना चाहिए",
+  form: "{label} मान्य फ़ॉर्म डेटा होना चाहिए",
+  file: "{label} एक फ़ाइल होनी चाहिए",
+  fileList: "{label} फ़ाइलों की सूची होनी चाहिए",
+  fileEmpty: "{label} खाली है",
+  fileSize: "{label} अधिकतम {max} की होनी चाहिए",
+  fileType: "{label} इनमें से एक होनी चाहिए: {options}",
+  fileContent: "{label} की सामग्री उसके फ़ाइल प्रकार से मेल नहीं खाती",
+  fileExtension: "{label} का एक्सटेंशन इनमें से एक होना चाहिए: {options}",
+  fileExtensionMismatch: "{label} की सामग्री उसके .{extension} एक्सटेंशन से मेल नहीं खाती",
+  fileCount: "{label} में अधिकतम {max} फ़ाइलें होनी चाहिए",
+  fileTotalSize: "{label} कुल मिलाकर अधिकतम {max} की होनी चाहिए",
+  imageDimensions: "{label} का आकार पढ़ा नहीं जा सका",
+  imageWidth: "{label} की चौड़ाई अधिकतम {max} पिक्सेल होनी चाहिए",
+  imageHeight: "{label} की ऊँचाई अधिकतम {max} पिक्सेल होनी चाहिए",
+  imageAspectRatio: "{label} का आस्पेक्ट रेशियो {ratio} होना चाहिए",
+};
+
+const mr: MessageCatalog = {
+  required: "{label} आवश्यक आहे",
+  string: "{label} मजकूर असणे आवश्यक आहे",
+  number: "{label} संख्या असणे आवश्यक आहे",
+  boolean: "{label} होय/नाही (boolean) असणे आवश्यक आहे",
+  uuid: "{label} वैध UUID असणे आवश्यक आहे",
+  enum: "{label} यांपैकी एक असणे आवश्यक आहे: {options}",
+  date: "{label} वैध तारीख असणे आवश्यक आहे",
+  url: "{label} वैध URL असणे आवश्यक आहे",
+  slug: "{label} मध्ये फक्त लहान अक्षरे, अंक आणि हायफन असू शकतात",
+  slugPattern: "{label} चे स्वरूप वैध नाही",
+  mobile: "{label} वैध 10-अंकी मोबाइल क्रमांक असणे आवश्यक आहे",
+  email: "{label} वैध ईमेल पत्ता असणे आवश्यक आहे",
+  emailOrMobile:
+    "{label} वैध ईमेल पत्ता किंवा 10-अंकी मोबाइल क्रमांक असणे आवश्यक आहे",
+  contact: "{label} वैध ईमेल किंवा मोबाइल क्रमांक असणे आवश्यक आहे",
+  positive: "{label} धन संख्या असणे आवश्यक आहे",
+  min: "{label} किमान {min} असणे आवश्यक आहे",
+  max: "{label} जास्तीत जास्त {max} असणे आवश्यक आहे",
+  maxLength: "{label} जास्तीत जास्त {max} अक्षरांचे असावे",
+  arrayMin: "{label} मध्ये किमान {min} घटक असणे आवश्यक आहे",
+  unique: "{label} मध्ये {key} अद्वितीय असणे आवश्यक आहे",
+  pinCode: "{label} 6 अंकी असणे आवश्यक आहे",
+  pan: "{label} वैध PAN असणे आवश्यक आहे",
+  gstin: "{label} वैध GSTIN असणे आवश्यक आहे",
+  gstinState: "{label} मधील राज्य कोड अवैध आहे",
+  gstinPan: "{label} मधील PAN अवैध आहे",
+  gstinChecksum: "{label} चा तपासणी अंक अवैध आहे",
+  currency: "{label} वैध ISO 4217 चलन कोड असणे आवश्यक आहे",
+  https: "{label} ने https वापरणे आवश्यक आहे",
+  domain: "{label} वैध डोमेन असणे आवश्यक आहे",
+  image: "{label} प्रतिमेचा URL असणे आवश्यक आहे",
+  dateAfter: "{label} {min} नंतरची असणे आवश्यक आहे",
+  filterField: "{label} वर फिल्टर लावता येत नाही",
+  filterOperator: "{label} \"{op}\" ला समर्थन देत नाही (अनुमत: {options})",
+  between: "{label} साठी नेमकी दोन मूल्ये आवश्यक आहेत",
+  cursor: "{label} अवैध आहे",
+  cursorExpired: "{label} ची मुदत संपली आहे",
+  phone: "{label} वैध फोन क्रमांक असणे आवश्यक आहे",
+  phoneCountry: "{label} यांपैकी एका देशाचा फोन क्रमांक असणे आवश्यक आहे: {options}",
+  phoneType: "{label} {options} क्रमांक असणे आवश्यक आहे",
+  dateTime: "{label} UTC ऑफसेटसह वैध ISO 8601 तारीख-वेळ असणे आवश्यक आहे",
+  time: "{label} वैध वेळ (HH:mm) असणे आवश्यक आहे",
+  dateMin: "{label} {min} रोजी किंवा त्यानंतर असणे आवश्यक आहे",
+  dateMax: "{label} {max} रोजी किंवा त्यापूर्वी असणे आवश्यक आहे",
+  dateSpan: "{label} {other} पासून {max} च्या आत असणे आवश्यक आहे",
+  fieldMatch: "{label} {other} शी जुळणे आवश्यक आहे",
+  fieldDiffers: "{label} {other} पेक्षा वेगळे असणे आवश्यक आहे",
+  fieldLess: "{label} {other} पेक्षा कमी असणे आवश्यक आहे",
+  fieldLessOrEqual: "{label} {other} पेक्षा कमी किंवा समान असणे आवश्यक आहे",
+  fieldGreater: "{label} {other} पेक्षा जास्त असणे आवश्यक आहे",
+  fieldGreaterOrEqual: "{label} {other} पेक्षा जास्त किंवा समान असणे आवश्यक आहे",
+  atLeastOne: "{options} पैकी किमान एक आवश्यक आहे",
+  exclusive: "{label} {other} सोबत देता येत नाही",
+  minLength: "{label} किमान {min} अक्षरांचे असावे",
+  unsafeUrl: "{label} मध्ये परवानगी नसलेली लिंक आहे",
+  disallowedTags: "{label} मध्ये फक्त परवानगी नसलेला मार्कअप आहे",
+  urlProtocol: "{label} साठी यापैकी एक प्रोटोकॉल आवश्यक आहे: {options}",
+  urlHost: "{label} चा होस्ट परवानगी असलेला नाही",
+  urlPrivate: "{label} खाजगी किंवा लोकल नेटवर्क पत्त्याकडे निर्देश करू शकत नाही",
+  urlCredentials: "{label} मध्ये युजरनेम किंवा पासवर्ड नसावा",
+  domainSuffix: "{label} नोंदणीयोग्य डोमेन असावे, सार्वजनिक सफिक्स नाही",
+  taken: "{label} आधीच वापरात आहे",
+  notFound: "{label} अस्तित्वात नाही",
+  lookupTimeout: "{label} तपासता आले नाही, कृपया पुन्हा प्रयत्न करा",
+  inState: "{label} हे भारतातील राज्य किंवा केंद्रशासित प्रदेश असणे आवश्यक आहे",
+  pinRegion: "{label} वैध भारतीय पिन कोड नाही",
+  pinState: "{label} {state} मधील नाही",
+  ifsc: "{label} वैध IFSC कोड असणे आवश्यक आहे",
+  upiId: "{label} वैध UPI ID असणे आवश्यक आहे",
+  upiHandle: "{label} यांपैकी एकाचा असणे आवश्यक आहे: {options}",
+  aadhaar: "{label} वैध 12 अंकी आधार क्रमांक असणे आवश्यक आहे",
+  aadhaarChecksum: "{label} वैध आधार क्रमांक नाही",
+  bankAccount: "{label} मध्ये फक्त अंक असणे आवश्यक आहे",
+  bankAccountLength: "{label} {min} ते {max} अंकी असणे आवश्यक आहे",
+  cin: "{label} वैध CIN असणे आवश्यक आहे",
+  tan: "{label} वैध TAN असणे आवश्यक आहे",
+  passwordLowercase: "{label} मध्ये किमान {min} लहान अक्षर असणे आवश्यक आहे",
+  passwordUppercase: "{label} मध्ये किमान {min} मोठे अक्षर असणे आवश्यक आहे",
+  passwordDigit: "{label} मध्ये किमान {min} अंक असणे आवश्यक आहे",
+  passwordSymbol: "{label} मध्ये किमान {min} चिन्ह असणे आवश्यक आहे",
+  passwordRepeat: "{label} मध्ये एकच अक्षर सलग {max} पेक्षा जास्त वेळा नसावे",
+  passwordForbidden: "{label} मध्ये \"{word}\" नसावे",
+  passwordCommon: "{label} खूप सामान्य आहे",
+  passwordEntropy: "{label} ओळखणे खूप सोपे आहे",
+  passwordPersonal: "{label} मध्ये तुमचा {other} नसावा",
+  object: "{label} ऑब्जेक्ट असणे आवश्यक आहे",
+  json: "{label} वैध JSON असणे आवश्यक आहे",
+  form: "{label} वैध फॉर्म डेटा असणे आवश्यक आहे",
+  file: "{label} फाइल असणे आवश्यक आहे",
+  fileList: "{label} फाइल्सची यादी असणे आवश्यक आहे",
+  fileEmpty: "{label} रिकामी आहे",
+  fileSize: "{label} जास्तीत जास्त {max} असणे आवश्यक आहे",
+  fileType: "{label} यांपैकी एक असणे आवश्यक आहे: {options}",
+  fileContent: "{label} ची सामग्री तिच्या फाइल प्रकाराशी जुळत नाही",
+  fileExtension: "{label} चे एक्सटेन्शन यांपैकी एक असणे आवश्यक आहे: {options}",
+  fileExtensionMismatch: "{label} ची सामग्री तिच्या .{extension} एक्सटेन्शनशी जुळत नाही",
+  fileCount: "{label} मध्ये जास्तीत जास्त {max} फाइल्स असाव्यात",
+  fileTotalSize: "{label} एकूण जास्तीत जास्त {max} असणे आवश्यक आहे",
+  imageDimensions: "{label} चा आकार वाचता आला नाही",
+  imageWidth: "{label} ची रुंदी जास्तीत जास्त {max} पिक्सेल असणे आवश्यक आहे",
+  imageHeight: "{label} ची उंची जास्तीत जास्त {max} पिक्सेल असणे आवश्यक आहे",
+  imageAspectRatio: "{label} चे आस्पेक्ट रेशो {ratio} असणे आवश्यक आहे",
+};
+
+interface LocaleEntry {
+  messages: MessageCatalog;
+  fallback?: string;
+}
+
+const catalogs = new Map<string, LocaleEntry>([
+  [DEFAULT_LOCALE, { messages: en }],
+  ["hi", { messages: hi }],
+  ["mr", { messages: mr, fallback: "hi" }],
+]);
+
+let activeLocale = DEFAULT_LOCALE;
+let scopedLocale: string | undefined;
+
+// On Node the `withLocale` scope follows awaits (async refinements, lookups);
+// elsewhere it only covers synchronous work. Loaded on first use.
+let localeStorage: import("async_hooks").AsyncLocalStorage<string> | null | undefined;
+const asyncScope = () => {
+  if (localeStorage === undefined) {
+    try {
+      const { AsyncLocalStorage }: typeof import("async_hooks") = require("async_hooks");
+      localeStorage = new AsyncLocalStorage<string>();
+    } catch {
+      localeStorage = null;
+    }
+  }
+  return localeStorage;
+};
+
+/* ---------------------------------------
+ * Registry
+ * ------------------------------------- */
+
+/**
+ * Register (or extend) a locale. Keys missing from `messages` resolve
+ * through `fallback`, then the parent tag ("hi-IN" -> "hi"), then English.
+ */
+export const registerLocale = (
+  locale: string,
+  messages: MessageCatalog,
+  options: { fallback?: string } = {}
+) => {
+  const existing = catalogs.get(locale);
+  catalogs.set(locale, {
+    messages: { ...existing?.messages, ...messages },
+    fallback: options.fallback ?? existing?.fallback,
+  });
+};
+
+export const availableLocales = () => Array.from(catalogs.keys());
+
+/** Set the process-wide locale used by every fragment */
+export const setLocale = (locale: string) => {
+  activeLocale = locale;
+};
+
+export const getLocale = () => localeStorage?.getStore() ?? scopedLocale ?? activeLocale;
+
+/**
+ * Run `fn` with a different active locale, e.g. for a single parse:
+ * `withLocale("hi", () => schema.safeParseAsync(body))`.
+ * On Node the locale carries across awaits started in `fn`; in other
+ * runtimes only synchronous work inside `fn` sees it.
+ */
+export const withLocale = <T>(locale: string, fn: () => T): T => {
+  const storage = asyncScope();
+  if (storage) return storage.run(locale, fn);
+  const previous = scopedLocale;
+  scopedLocale = locale;
+  try {
+    return fn();
+  } finally {
+    scopedLocale = previous;
+  }
+};
+
+const localeChain = (locale: string): string[] => {
+  const chain: string[] = [];
+  let current: string | undefined = locale;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const fallback: string | undefined = catalogs.get(current)?.fallback;
+    if (fallback) {
+      current = fallback;
+      continue;
+    }
+    const dash = current.lastIndexOf("-");
+    current = dash > 0 ? current.slice(0, dash) : undefined;
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+  return chain;
+};
+
+const interpolate = (template: string, params: MessageParams) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+
+/** Resolve a message key for the active (or given) locale */
+export const translate = (
+  key: MessageKey,
+  params: MessageParams = {},
+  locale = getLocale()
+): string => {
+  for (const candidate of localeChain(locale)) {
+    const template = catalogs.get(candidate)?.messages[key];
+    if (template !== undefined) return interpolate(template, params);
+  }
+  return key;
+};
+
+/* ---------------------------------------
+ * Error map used by fragments
+ * Messages are resolved when an issue is raised, not when the
+ * schema is built, so locale changes apply to existing schemas.
+ * ------------------------------------- */
+export interface FragmentMessageResolvers {
+  required?: () => string;
+  invalid?: () => string;
+  validation?: (issue: z.ZodIssueOptionalMessage) => string | undefined;
+}
+
+export const fragmentErrorMap =
+  (resolvers: FragmentMessageResolvers): z.ZodErrorMap =>
+  (issue, ctx) => {
+    const message =
+      issue.code === z.ZodIssueCode.invalid_type
+        ? ctx.data === undefined
+          ? resolvers.required?.()
+          : resolvers.invalid?.()
+        : resolvers.validation?.(issue);
+    return { message: message ?? ctx.defaultError };
+  };
@@ -8,8 +8,17 @@ import {
   ZodRawShape,
   ZodOptional,
 } from "zod";
-
-/** Exported so extras can reuse consistent text */
+import { translate, fragmentErrorMap } from "./i18n";
+import { tagged, withIssueCode } from "./errors";
+import { withMeta } from "./meta";
+import { withCoerce } from "./form-data";
+import { ParsePhoneOptions, parsePhone } from "./phone";
+import { WithLookups, withLookups } from "./lookup";
+
+/**
+ * English message fragments, kept for consumers that compose their own text.
+ * Fragments resolve their messages through the locale registry in `./i18n`.
+ */
 export const FIELD_ERRORS = {
   REQUIRED: "is required",
   STRING: "must be a string",
@@ -44,20 +53,22 @@ export const requiredString = (
         }
       : customMessages || {};
 
-  return z
+  const schema = z
     .string({
-      required_error: messages.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+        validation: () =>
+          messages.validation ||
+          messages.required ||
+          translate("required", { label }),
+      }),
     })
-    .min(
-      1,
-      messages.validation ||
-        messages.required ||
-        `${label} ${FIELD_ERRORS.REQUIRED}`
-    );
+    .min(1);
+  return withMeta(schema, { kind: "requiredString", label, messages: customMessages });
 };
 
-export const optionalString = (
+export const optionalString = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodOptional<ZodString> => {
@@ -66,14 +77,17 @@ export const optionalString = (
       ? { invalid: customMessages }
       : customMessages || {};
 
-  return z
+  const schema = z
     .string({
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
+      errorMap: fragmentErrorMap({
+        invalid: () => messages.invalid || translate("string", { label }),
+      }),
     })
     .optional();
-};
+  return withMeta(schema, { kind: "optionalString", label, messages: customMessages });
+});
 
-export const requiredNumber = (
+export const requiredNumber = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodNumber => {
@@ -82,13 +96,16 @@ export const requiredNumber = (
       ? { required: customMessages, invalid: customMessages }
       : customMessages || {};
 
-  return z.number({
-    required_error: messages.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-    invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.NUMBER}`,
+  const schema = z.number({
+    errorMap: fragmentErrorMap({
+      required: () => messages.required || translate("required", { label }),
+      invalid: () => messages.invalid || translate("number", { label }),
+    }),
   });
-};
+  return withMeta(schema, { kind: "requiredNumber", label, messages: customMessages });
+});
 
-export const positiveNumber = (
+export const positiveNumber = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodNumber => {
@@ -97,14 +114,18 @@ export const positiveNumber = (
       ? { invalid: customMessages, validation: customMessages }
       : customMessages || {};
 
-  return z
+  const schema = z
     .number({
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.NUMBER}`,
+      errorMap: fragmentErrorMap({
+        invalid: () => messages.invalid || translate("number", { label }),
+        validation: () => messages.validation || translate("positive", { label }),
+      }),
     })
-    .positive(messages.validation || `${label} must be positive`);
-};
+    .positive();
+  return withMeta(schema, { kind: "positiveNumber", label, messages: customMessages });
+});
 
-export const optionalNumber = (
+export const optionalNumber = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodOptional<ZodNumber> => {
@@ -113,14 +134,17 @@ export const optionalNumber = (
       ? { invalid: customMessages }
       : customMessages || {};
 
-  return z
+  const schema = z
     .number({
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.NUMBER}`,
+      errorMap: fragmentErrorMap({
+        invalid: () => messages.invalid || translate("number", { label }),
+      }),
     })
     .optional();
-};
+  return withMeta(schema, { kind: "optionalNumber", label, messages: customMessages });
+});
 
-export const boolean = (
+export const boolean = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodBoolean => {
@@ -129,12 +153,15 @@ export const boolean = (
       ? { invalid: customMessages }
       : customMessages || {};
 
-  return z.boolean({
-    invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.BOOLEAN}`,
+  const schema = z.boolean({
+    errorMap: fragmentErrorMap({
+      invalid: () => messages.invalid || translate("boolean", { label }),
+    }),
   });
-};
+  return withMeta(schema, { kind: "boolean", label, messages: customMessages });
+});
 
-export const optionalBoolean = (
+export const optionalBoolean = withCoerce((
   label = "This field",
   customMessages?: CustomMessages | string
 ): ZodOptional<ZodBoolean> => {
@@ -143,18 +170,20 @@ export const optionalBoolean = (
       ? { invalid: customMessages }
       : customMessages || {};
 
-  return z
+  const schema = z
     .boolean({
-      invalid_type_error:
-        messages.invalid || `${label} ${FIELD_ERRORS.BOOLEAN}`,
+      errorMap: fragmentErrorMap({
+        invalid: () => messages.invalid || translate("boolean", { label }),
+      }),
     })
     .optional();
-};
+  return withMeta(schema, { kind: "optionalBoolean", label, messages: customMessages });
+});
 
 export const uuid = (
   label = "ID",
   customMessages?: CustomMessages | string
-): ZodString => {
+): WithLookups<ZodString> => {
   const messages =
     typeof customMessages === "string"
       ? {
@@ -164,20 +193,27 @@ export const uuid = (
         }
       : customMessages || {};
 
-  return z
-    .string({
-      required_error: messages.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
-    })
-    .uuid(messages.validation || `${label} ${FIELD_ERRORS.UUID}`);
+  const schema = withIssueCode(
+    z
+      .string({
+        errorMap: fragmentErrorMap({
+          required: () => messages.required || translate("required", { label }),
+          invalid: () => messages.invalid || translate("string", { label }),
+          validation: () => messages.validation || translate("uuid", { label }),
+        }),
+      })
+      .uuid(),
+    "uuid.format"
+  );
+  return withLookups(withMeta(schema, { kind: "uuid", label, messages: customMessages }));
 };
 
 export const optionalUUID = (
   label = "ID",
   customMessages?: CustomMessages | string
-): ZodOptional<ZodString> => uuid(label, customMessages).optional();
+): WithLookups<ZodOptional<ZodString>> => withLookups(uuid(label, customMessages).optional());
 
-export const Enum = <T extends [string, ...string[]]>(
+export const Enum = withCoerce(<T extends [string, ...string[]]>(
   options: T,
   label = "This field",
   customMessages?: CustomMessages | string
@@ -187,16 +223,24 @@ export const Enum = <T extends [string, ...string[]]>(
       ? { validation: customMessages }
       : customMessages || {};
 
-  return z.enum(options, {
-    errorMap: () => ({
-      message:
-        messages.validation ||
-        `${label} ${FIELD_ERRORS.ENUM} ${options.join(", ")}`,
+  const schema = withIssueCode(
+    z.enum(options, {
+      // `.extract()` / `.exclude()` keep this map, so list the options of the failing enum
+      errorMap: (issue) => ({
+        message:
+          messages.validation ||
+          translate("enum", {
+            label,
+            options: issue.code === z.ZodIssueCode.invalid_enum_value ? issue.options.map(String) : options,
+          }),
+      }),
     }),
-  });
-};
+    "enum.option"
+  );
+  return withMeta(schema, { kind: "Enum", label, messages: customMessages });
+});
 
-export const dateString = (
+export const dateString = withCoerce((
   label = "Date",
   customMessages?: CustomMessages | string
 ) => {
@@ -209,20 +253,29 @@ export const dateString = (
         }
       : customMessages || {};
 
-  return z
+  const schema = z
     .string({
-      required_error: messages.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+      }),
     })
-    .refine((val) => !isNaN(Date.parse(val)), {
-      message: messages.validation || `${label} ${FIELD_ERRORS.DATE}`,
-    });
-};
+    .refine(
+      (val) => !isNaN(Date.parse(val)),
+      tagged("date.format", () => messages.validation || translate("date", { label }))
+    );
+  return withMeta(schema, {
+    kind: "dateString",
+    label,
+    messages: customMessages,
+    jsonSchema: { format: "date" },
+  });
+});
 
-export const optionalDate = (
+export const optionalDate = withCoerce((
   label = "Date",
   customMessages?: CustomMessages | string
-) => dateString(label, customMessages).optional();
+) => dateString(label, customMessages).optional());
 
 export const paginationFields: ZodRawShape = {
   page: z.number().int().positive().default(1),
@@ -240,6 +293,7 @@ export const listQueryFields: ZodRawShape = {
   ...paginationFields,
 };
 
+/** Unsanitized; `seoFieldsStrict` / `buildSeoFields` strip tags and limit lengths */
 export const seoFields: ZodRawShape = {
   seo_title: optionalString("SEO Title"),
   seo_description: optionalString("SEO Description"),
@@ -255,10 +309,17 @@ export const fileUrl = (
       ? { validation: customMessages }
       : customMessages || {};
 
-  return z
-    .string()
-    .url(messages.validation || `${label} ${FIELD_ERRORS.URL}`)
-    .optional();
+  const schema = withIssueCode(
+    z
+      .string({
+        errorMap: fragmentErrorMap({
+          validation: () => messages.validation || translate("url", { label }),
+        }),
+      })
+      .url(),
+    "url.format"
+  ).optional();
+  return withMeta(schema, { kind: "fileUrl", label, messages: customMessages });
 };
 
 export const imageUrl = (
@@ -270,38 +331,61 @@ export const imageUrl = (
       ? { validation: customMessages }
       : customMessages || {};
 
-  return z
-    .string()
-    .url(messages.validation || `${label} ${FIELD_ERRORS.URL}`)
-    .optional();
+  const schema = withIssueCode(
+    z
+      .string({
+        errorMap: fragmentErrorMap({
+          validation: () => messages.validation || translate("url", { label }),
+        }),
+      })
+      .url(),
+    "url.format"
+  ).optional();
+  return withMeta(schema, { kind: "imageUrl", label, messages: customMessages });
 };
 
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+
 export const slug = (
   label = "Slug",
-  customMessages?: CustomMessages | string
-): ZodOptional<ZodString> => {
+  customMessages?: CustomMessages | string,
+  pattern = SLUG_PATTERN
+): WithLookups<ZodOptional<ZodString>> => {
   const messages =
     typeof customMessages === "string"
       ? { invalid: customMessages, validation: customMessages }
       : customMessages || {};
 
-  return z
-    .string({
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
-    })
-    .regex(
-      /^[a-z0-9-]+$/,
-      messages.validation || `${label} ${FIELD_ERRORS.SLUG_FORMAT}`
-    )
-    .optional();
+  const schema = withIssueCode(
+    z
+      .string({
+        errorMap: fragmentErrorMap({
+          invalid: () => messages.invalid || translate("string", { label }),
+          // a custom pattern may allow more than lowercase letters, numbers and hyphens
+          validation: () =>
+            messages.validation ||
+            translate(pattern.source === SLUG_PATTERN.source ? "slug" : "slugPattern", { label }),
+        }),
+      })
+      .regex(pattern),
+    "slug.format"
+  ).optional();
+  return withLookups(withMeta(schema, { kind: "slug", label, messages: customMessages }));
 };
 
-export const description = optionalString("Description");
+/** Unsanitized; `optionalPlainText("Description", undefined, { multiline: true })` strips tags */
+export const description = withMeta(optionalString("Description"), {
+  kind: "optionalString",
+  label: "Description",
+  constraints: { multiline: true },
+});
 export const title = requiredString("Title");
 
+/** `phoneOptions` replaces the 10-digit rule with `parsePhone` */
 export const emailOrMobile = (
   label = "Identifier",
-  customMessages?: CustomMessages | string
+  customMessages?: CustomMessages | string,
+  phoneOptions?: ParsePhoneOptions
 ) => {
   const messages =
     typeof customMessages === "string"
@@ -312,27 +396,67 @@ export const emailOrMobile = (
         }
       : customMessages || {};
 
-  return z
+  const schema = z
     .string({
-      required_error: messages.required || `${label} ${FIELD_ERRORS.REQUIRED}`,
-      invalid_type_error: messages.invalid || `${label} ${FIELD_ERRORS.STRING}`,
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+      }),
     })
     .refine(
       (val) => {
         const isEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(val);
-        const isMobile = /^[0-9]{10}$/.test(val);
+        const isMobile = phoneOptions
+          ? parsePhone(val, phoneOptions).success
+          : /^[0-9]{10}$/.test(val);
         return isEmail || isMobile;
       },
-      {
-        message:
+      tagged(
+        "email_or_mobile.format",
+        () =>
           messages.validation ||
-          `${label} ${FIELD_ERRORS.EMAIL} or ${FIELD_ERRORS.MOBILE}`,
-      }
+          translate(phoneOptions ? "contact" : "emailOrMobile", { label })
+      )
     );
+  return withMeta(schema, {
+    kind: "emailOrMobile",
+    label,
+    messages: customMessages,
+    constraints: phoneOptions ? { phone: phoneOptions } : undefined,
+    jsonSchema: {
+      anyOf: [
+        { format: "email" },
+        { pattern: phoneOptions ? "^\\+?[0-9 ().\\/-]+$" : "^[0-9]{10}$" },
+      ],
+    },
+  });
 };
 
 
+export * from "./i18n";
+export * from "./errors";
+export * from "./meta";
+export * from "./india";
+export * from "./fixtures";
+export * from "./currency";
+export * from "./phone";
+export * from "./dates";
+export * from "./url";
 export * from "./extensions";
+export * from "./query";
+export * from "./cursor";
+export * from "./json-schema";
+export * from "./form-data";
+export * from "./sanitize";
+export * from "./rules";
+export * from "./patch";
+export * from "./lookup";
+export * from "./password";
+export * from "./factory";
+export * from "./generate";
+export * from "./form-adapter";
+export * from "./middleware";
+export * from "./upload";
 
 
 export { z };
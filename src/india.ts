@@ -0,0 +1,403 @@
+// src/india.ts
+/* ---------------------------------------
+ * Offline reference data for India-specific fragments
+ * ------------------------------------- */
+
+/** GST state / UT codes (first two digits of a GSTIN) */
+export const GST_STATE_CODES: Readonly<Record<string, string>> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "25": "Daman and Diu",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "28": "Andhra Pradesh (Old)",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+  "99": "Centre Jurisdiction",
+};
+
+/** PAN 4th character -> holder type */
+export const PAN_ENTITY_TYPES = {
+  P: "individual",
+  C: "company",
+  H: "huf",
+  F: "firm",
+  A: "aop",
+  T: "trust",
+  B: "boi",
+  L: "local_authority",
+  J: "artificial_juridical_person",
+  G: "government",
+} as const;
+
+export type PanEntityCode = keyof typeof PAN_ENTITY_TYPES;
+export type PanEntityType = (typeof PAN_ENTITY_TYPES)[PanEntityCode];
+
+export interface PanDetails {
+  pan: string;
+  entityCode: PanEntityCode;
+  entityType: PanEntityType;
+}
+
+export interface GstinDetails {
+  gstin: string;
+  stateCode: string;
+  stateName: string;
+  pan: string;
+  entityType: PanEntityType;
+  /** 13th character: registration number for the same PAN in the state */
+  entityNumber: string;
+}
+
+export const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/;
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/** Mod-36 check character for the first 14 characters of a GSTIN */
+export const gstinCheckDigit = (first14: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+/** Decode an uppercase, already validated PAN */
+export const decodePan = (pan: string): PanDetails => {
+  const entityCode = pan[3] as PanEntityCode;
+  return { pan, entityCode, entityType: PAN_ENTITY_TYPES[entityCode] };
+};
+
+/** Decode an uppercase, already validated GSTIN */
+export const decodeGstin = (gstin: string): GstinDetails => {
+  const stateCode = gstin.slice(0, 2);
+  const pan = gstin.slice(2, 12);
+  return {
+    gstin,
+    stateCode,
+    stateName: GST_STATE_CODES[stateCode],
+    pan,
+    entityType: decodePan(pan).entityType,
+    entityNumber: gstin[12],
+  };
+};
+
+/* ---------------------------------------
+ * States, union territories & PIN postal circles
+ * ------------------------------------- */
+
+export const IN_STATE_NAMES = [
+  "Andaman and Nicobar Islands",
+  "Andhra Pradesh",
+  "Arunachal Pradesh",
+  "Assam",
+  "Bihar",
+  "Chandigarh",
+  "Chhattisgarh",
+  "Dadra and Nagar Haveli and Daman and Diu",
+  "Delhi",
+  "Goa",
+  "Gujarat",
+  "Haryana",
+  "Himachal Pradesh",
+  "Jammu and Kashmir",
+  "Jharkhand",
+  "Karnataka",
+  "Kerala",
+  "Ladakh",
+  "Lakshadweep",
+  "Madhya Pradesh",
+  "Maharashtra",
+  "Manipur",
+  "Meghalaya",
+  "Mizoram",
+  "Nagaland",
+  "Odisha",
+  "Puducherry",
+  "Punjab",
+  "Rajasthan",
+  "Sikkim",
+  "Tamil Nadu",
+  "Telangana",
+  "Tripura",
+  "Uttar Pradesh",
+  "Uttarakhand",
+  "West Bengal",
+] as const;
+
+export type InStateName = (typeof IN_STATE_NAMES)[number];
+
+export interface InStateInfo {
+  type: "state" | "union_territory";
+  /** ISO 3166-2:IN code first, then common (vehicle registration) variants */
+  abbreviations: readonly string[];
+  /** Former or informal names that are always accepted */
+  aliases?: readonly string[];
+  /**
+   * Leading PIN digits of the state's postal circle. Circles shared by
+   * several states (UP/Uttarakhand, Bihar/Jharkhand, AP/Telangana) list
+   * the whole circle for each of them.
+   */
+  pinPrefixes: readonly string[];
+}
+
+export const IN_STATES: Readonly<Record<InStateName, InStateInfo>> = {
+  "Andaman and Nicobar Islands": { type: "union_territory", abbreviations: ["AN"], pinPrefixes: ["744"] },
+  "Andhra Pradesh": { type: "state", abbreviations: ["AP"], pinPrefixes: ["50", "51", "52", "53"] },
+  "Arunachal Pradesh": { type: "state", abbreviations: ["AR"], pinPrefixes: ["790", "791", "792"] },
+  Assam: { type: "state", abbreviations: ["AS"], pinPrefixes: ["78"] },
+  Bihar: { type: "state", abbreviations: ["BR"], pinPrefixes: ["80", "81", "82", "83", "84", "85"] },
+  Chandigarh: { type: "union_territory", abbreviations: ["CH"], pinPrefixes: ["160"] },
+  Chhattisgarh: { type: "state", abbreviations: ["CG", "CT"], pinPrefixes: ["49"] },
+  "Dadra and Nagar Haveli and Daman and Diu": {
+    type: "union_territory",
+    abbreviations: ["DH", "DD", "DN"],
+    pinPrefixes: ["362", "396"],
+  },
+  Delhi: {
+    type: "union_territory",
+    abbreviations: ["DL"],
+    aliases: ["New Delhi", "NCT of Delhi", "National Capital Territory of Delhi"],
+    pinPrefixes: ["11"],
+  },
+  Goa: { type: "state", abbreviations: ["GA"], pinPrefixes: ["403"] },
+  Gujarat: { type: "state", abbreviations: ["GJ"], pinPrefixes: ["36", "37", "38", "39"] },
+  Haryana: { type: "state", abbreviations: ["HR"], pinPrefixes: ["12", "13"] },
+  "Himachal Pradesh": { type: "state", abbreviations: ["HP"], pinPrefixes: ["17"] },
+  "Jammu and Kashmir": { type: "union_territory", abbreviations: ["JK"], pinPrefixes: ["18", "19"] },
+  Jharkhand: { type: "state", abbreviations: ["JH"], pinPrefixes: ["80", "81", "82", "83", "84", "85"] },
+  Karnataka: { type: "state", abbreviations: ["KA"], pinPrefixes: ["56", "57", "58", "59"] },
+  Kerala: { type: "state", abbreviations: ["KL"], pinPrefixes: ["67", "68", "69"] },
+  Ladakh: { type: "union_territory", abbreviations: ["LA"], pinPrefixes: ["194"] },
+  Lakshadweep: { type: "union_territory", abbreviations: ["LD"], pinPrefixes: ["682"] },
+  "Madhya Pradesh": { type: "state", abbreviations: ["MP"], pinPrefixes: ["45", "46", "47", "48"] },
+  Maharashtra: { type: "state", abbreviations: ["MH"], pinPrefixes: ["40", "41", "42", "43", "44"] },
+  Manipur: { type: "state", abbreviations: ["MN"], pinPrefixes: ["795"] },
+  Meghalaya: { type: "state", abbreviations: ["ML"], pinPrefixes: ["793", "794"] },
+  Mizoram: { type: "state", abbreviations: ["MZ"], pinPrefixes: ["796"] },
+  Nagaland: { type: "state", abbreviations: ["NL"], pinPrefixes: ["797", "798"] },
+  Odisha: { type: "state", abbreviations: ["OD", "OR"], aliases: ["Orissa"], pinPrefixes: ["75", "76", "77"] },
+  Puducherry: {
+    type: "union_territory",
+    abbreviations: ["PY"],
+    aliases: ["Pondicherry"],
+    // Puducherry, Karaikal, Mahe and Yanam
+    pinPrefixes: ["605", "607", "609", "673", "533"],
+  },
+  Punjab: { type: "state", abbreviations: ["PB"], pinPrefixes: ["14", "15", "16"] },
+  Rajasthan: { type: "state", abbreviations: ["RJ"], pinPrefixes: ["30", "31", "32", "33", "34"] },
+  Sikkim: { type: "state", abbreviations: ["SK"], pinPrefixes: ["737"] },
+  "Tamil Nadu": { type: "state", abbreviations: ["TN"], pinPrefixes: ["60", "61", "62", "63", "64"] },
+  Telangana: { type: "state", abbreviations: ["TG", "TS"], pinPrefixes: ["50", "51", "52", "53"] },
+  Tripura: { type: "state", abbreviations: ["TR"], pinPrefixes: ["799"] },
+  "Uttar Pradesh": {
+    type: "state",
+    abbreviations: ["UP"],
+    pinPrefixes: ["20", "21", "22", "23", "24", "25", "26", "27", "28"],
+  },
+  Uttarakhand: {
+    type: "state",
+    abbreviations: ["UK", "UT"],
+    aliases: ["Uttaranchal"],
+    pinPrefixes: ["20", "21", "22", "23", "24", "25", "26", "27", "28"],
+  },
+  "West Bengal": { type: "state", abbreviations: ["WB"], pinPrefixes: ["70", "71", "72", "73", "74"] },
+};
+
+export const IN_PIN_PATTERN = /^[1-8][0-9]{5}$/;
+
+// "Jammu & Kashmir", "jammu and  kashmir" -> "jammu and kashmir"
+const stateKey = (value: string) =>
+  value.toLowerCase().replace(/&/g, " and ").replace(/[^a-z]+/g, " ").trim();
+
+const STATE_KEYS = new Map<string, InStateName>();
+const STATE_ABBREVIATIONS = new Map<string, InStateName>();
+for (const name of IN_STATE_NAMES) {
+  const { aliases = [], abbreviations } = IN_STATES[name];
+  for (const key of [name, ...aliases]) STATE_KEYS.set(stateKey(key), name);
+  for (const code of abbreviations) STATE_ABBREVIATIONS.set(code, name);
+}
+
+/** Canonical state / UT name for a name or alias (any case), or an abbreviation when allowed */
+export const findInState = (
+  value: string,
+  options: { abbreviations?: boolean } = {}
+): InStateName | undefined =>
+  STATE_KEYS.get(stateKey(value)) ??
+  (options.abbreviations ? STATE_ABBREVIATIONS.get(value.trim().toUpperCase()) : undefined);
+
+/** States / UTs whose postal circle a PIN belongs to (empty for impossible PINs) */
+export const pinStates = (pin: string): InStateName[] =>
+  IN_PIN_PATTERN.test(pin)
+    ? IN_STATE_NAMES.filter((name) =>
+        IN_STATES[name].pinPrefixes.some((prefix) => pin.startsWith(prefix))
+      )
+    : [];
+
+/* ---------------------------------------
+ * Banking & KYC identifiers
+ * ------------------------------------- */
+
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+export const UPI_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/;
+export const AADHAAR_PATTERN = /^[2-9][0-9]{11}$/;
+export const CIN_PATTERN = /^[LU][0-9]{5}[A-Z]{2}[0-9]{4}[A-Z]{3}[0-9]{6}$/;
+export const TAN_PATTERN = /^[A-Z]{4}[0-9]{5}[A-Z]$/;
+
+/** IFSC bank codes (first four characters) of common banks */
+export const IFSC_BANK_CODES: Readonly<Record<string, string>> = {
+  AIRP: "Airtel Payments Bank",
+  AUBL: "AU Small Finance Bank",
+  BARB: "Bank of Baroda",
+  BDBL: "Bandhan Bank",
+  BKID: "Bank of India",
+  CBIN: "Central Bank of India",
+  CITI: "Citibank",
+  CIUB: "City Union Bank",
+  CNRB: "Canara Bank",
+  DBSS: "DBS Bank India",
+  DCBL: "DCB Bank",
+  ESFB: "Equitas Small Finance Bank",
+  FDRL: "Federal Bank",
+  HDFC: "HDFC Bank",
+  HSBC: "HSBC",
+  IBKL: "IDBI Bank",
+  ICIC: "ICICI Bank",
+  IDFB: "IDFC First Bank",
+  IDIB: "Indian Bank",
+  INDB: "IndusInd Bank",
+  IOBA: "Indian Overseas Bank",
+  IPOS: "India Post Payments Bank",
+  JAKA: "Jammu and Kashmir Bank",
+  KARB: "Karnataka Bank",
+  KKBK: "Kotak Mahindra Bank",
+  KVBL: "Karur Vysya Bank",
+  MAHB: "Bank of Maharashtra",
+  PSIB: "Punjab and Sind Bank",
+  PUNB: "Punjab National Bank",
+  PYTM: "Paytm Payments Bank",
+  RATN: "RBL Bank",
+  SBIN: "State Bank of India",
+  SCBL: "Standard Chartered Bank",
+  SIBL: "South Indian Bank",
+  TMBL: "Tamilnad Mercantile Bank",
+  UBIN: "Union Bank of India",
+  UCBA: "UCO Bank",
+  UJVN: "Ujjivan Small Finance Bank",
+  UTIB: "Axis Bank",
+  YESB: "Yes Bank",
+};
+
+export interface IfscDetails {
+  ifsc: string;
+  bankCode: string;
+  /** Undefined for banks missing from `IFSC_BANK_CODES` */
+  bankName?: string;
+  branchCode: string;
+}
+
+export interface CinDetails {
+  cin: string;
+  listed: boolean;
+  /** NIC industry code */
+  industryCode: string;
+  /** Registrar of Companies state code */
+  stateCode: string;
+  year: number;
+  /** PLC, PTC, GOI, NPL, OPC ... */
+  ownership: string;
+  registrationNumber: string;
+}
+
+/** Decode an uppercase, already validated IFSC */
+export const decodeIfsc = (ifsc: string): IfscDetails => {
+  const bankCode = ifsc.slice(0, 4);
+  return { ifsc, bankCode, bankName: IFSC_BANK_CODES[bankCode], branchCode: ifsc.slice(5) };
+};
+
+/** Decode an uppercase, already validated CIN */
+export const decodeCin = (cin: string): CinDetails => ({
+  cin,
+  listed: cin[0] === "L",
+  industryCode: cin.slice(1, 6),
+  stateCode: cin.slice(6, 8),
+  year: Number(cin.slice(8, 12)),
+  ownership: cin.slice(12, 15),
+  registrationNumber: cin.slice(15),
+});
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const VERHOEFF_INV = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+const verhoeff = (digits: string, offset: number) => {
+  let c = 0;
+  for (let i = 0; i < digits.length; i++)
+    c = VERHOEFF_D[c][VERHOEFF_P[(i + offset) % 8][Number(digits[digits.length - 1 - i])]];
+  return c;
+};
+
+/** Verhoeff check digit for a string of digits (Aadhaar's last digit) */
+export const verhoeffCheckDigit = (digits: string): string =>
+  String(VERHOEFF_INV[verhoeff(digits, 1)]);
+
+/** True when the last digit is the Verhoeff check digit of the rest */
+export const isVerhoeffValid = (digits: string): boolean => verhoeff(digits, 0) === 0;
+
+/** "XXXX-XXXX-1234" */
+export const maskAadhaar = (aadhaar: string): string => `XXXX-XXXX-${aadhaar.slice(-4)}`;
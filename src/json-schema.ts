@@ -0,0 +1,304 @@
+// src/json-schema.ts
+import { z } from "zod";
+import { getMeta, unwrapSchema, type FragmentMeta } from "./meta";
+import type { FilterSpec } from "./query";
+
+/* ---------------------------------------
+ * JSON Schema (2020-12) / OpenAPI 3.1 export
+ * Describes what a schema accepts. Refines and transforms can't be
+ * read back from Zod, so fragments add their intent through metadata.
+ * ------------------------------------- */
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaOptions {
+  /** "jsonSchema" adds a `$schema` keyword at the root; "openApi" does not */
+  target?: "jsonSchema" | "openApi";
+  /** Emit custom fragment messages as `x-errorMessage` (default true) */
+  errorMessages?: boolean;
+}
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const applyMeta = (
+  json: JsonSchema,
+  meta: FragmentMeta,
+  options: JsonSchemaOptions
+): JsonSchema => {
+  const result: JsonSchema = { ...json, ...meta.jsonSchema, "x-fragment": meta.kind };
+  if (meta.label) result.title = meta.label;
+  if (meta.messages && options.errorMessages !== false) result["x-errorMessage"] = meta.messages;
+  return result;
+};
+
+const stringSchema = (def: z.ZodStringDef): JsonSchema => {
+  const json: JsonSchema = { type: "string" };
+  const patterns: string[] = [];
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "min":
+        json.minLength = check.value;
+        break;
+      case "max":
+        json.maxLength = check.value;
+        break;
+      case "length":
+        json.minLength = json.maxLength = check.value;
+        break;
+      case "email":
+        json.format = "email";
+        break;
+      case "url":
+        json.format = "uri";
+        break;
+      case "uuid":
+        json.format = "uuid";
+        break;
+      case "datetime":
+        json.format = "date-time";
+        break;
+      case "ip":
+        json.format = check.version === "v6" ? "ipv6" : "ipv4";
+        break;
+      case "regex":
+        patterns.push(check.regex.source);
+        break;
+      case "startsWith":
+        patterns.push(`^${escapeRegex(check.value)}`);
+        break;
+      case "endsWith":
+        patterns.push(`${escapeRegex(check.value)}$`);
+        break;
+    }
+  }
+  if (patterns.length === 1) json.pattern = patterns[0];
+  else if (patterns.length) json.allOf = patterns.map((pattern) => ({ pattern }));
+  return json;
+};
+
+const numberSchema = (def: z.ZodNumberDef): JsonSchema => {
+  const json: JsonSchema = { type: "number" };
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "int":
+        json.type = "integer";
+        break;
+      case "min":
+        json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        break;
+      case "max":
+        json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        break;
+      case "multipleOf":
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+};
+
+const literalType = (value: unknown) =>
+  value === null ? "null" : typeof value === "bigint" ? "integer" : typeof value;
+
+const convert = (schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema => {
+  const meta = getMeta(schema);
+  const json = convertType(schema, options);
+  return meta ? applyMeta(json, meta, options) : json;
+};
+
+const convertType = (schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema => {
+  const def = schema._def;
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer", format: "int64" };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: literalType(def.value), const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const values = Object.keys(def.values)
+        .filter((key) => typeof def.values[def.values[key]] !== "number")
+        .map((key) => def.values[key]);
+      return { enum: values };
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape: z.ZodRawShape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = convert(field, options);
+        if (!field.isOptional()) required.push(key);
+      }
+      const json: JsonSchema = { type: "object", properties };
+      if (required.length) json.required = required;
+      if (!(def.catchall instanceof z.ZodNever))
+        json.additionalProperties = convert(def.catchall, options);
+      else if (def.unknownKeys === "strict") json.additionalProperties = false;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: convert(def.type, options) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const json: JsonSchema = {
+        type: "array",
+        prefixItems: def.items.map((item: z.ZodTypeAny) => convert(item, options)),
+        minItems: def.items.length,
+      };
+      if (def.rest) json.items = convert(def.rest, options);
+      else json.items = false;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      const json: JsonSchema = {
+        type: "object",
+        additionalProperties: convert(def.valueType, options),
+      };
+      if (!(def.keyType instanceof z.ZodString)) json.propertyNames = convert(def.keyType, options);
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => convert(option, options)) };
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        oneOf: Array.from(def.options as z.ZodTypeAny[], (option) => convert(option, options)),
+      };
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, options), convert(def.right, options)] };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, options);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [convert(def.innerType, options), { type: "null" }] };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, options), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return convert(def.innerType, options);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.type, options);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, options);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      // the first stage of a fragment pipeline only coerces; the target carries the rules
+      return convert(def.out, options);
+    case z.ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Convert a schema into JSON Schema 2020-12 (also valid as an OpenAPI 3.1
+ * schema object). Fragment labels become `title`, custom messages
+ * `x-errorMessage` and the fragment name `x-fragment`.
+ */
+export const toJsonSchema = (
+  schema: z.ZodTypeAny,
+  options: JsonSchemaOptions = {}
+): JsonSchema => {
+  const json = convert(schema, options);
+  return options.target === "openApi" ? json : { $schema: JSON_SCHEMA_DIALECT, ...json };
+};
+
+/** `{ schemas: { Name: ... } }` for an OpenAPI `components` object */
+export const toOpenApiComponents = (
+  schemas: Record<string, z.ZodTypeAny>,
+  options: Omit<JsonSchemaOptions, "target"> = {}
+) => ({
+  schemas: Object.fromEntries(
+    Object.entries(schemas).map(([name, schema]) => [
+      name,
+      toJsonSchema(schema, { ...options, target: "openApi" }),
+    ])
+  ),
+});
+
+/* ---------------------------------------
+ * OpenAPI query parameters
+ * ------------------------------------- */
+export interface OpenApiParameter {
+  name: string;
+  in: "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+  style?: "form" | "deepObject";
+  explode?: boolean;
+}
+
+const listFilterParameters = (spec: FilterSpec, options: JsonSchemaOptions) =>
+  Object.entries(spec).flatMap(([field, { schema, ops, label }]) =>
+    ops.map((op): OpenApiParameter => {
+      const list = op === "in" || op === "nin" || op === "between";
+      return {
+        name: `filter[${field}][${op}]`,
+        in: "query",
+        required: false,
+        description: list
+          ? `${label || field} (${op}), comma-separated${op === "between" ? " min,max" : ""}`
+          : `${label || field} (${op})`,
+        schema: list ? { type: "string" } : convert(schema, options),
+      };
+    })
+  );
+
+/**
+ * Query parameters for a list/pagination schema, e.g. `buildListQuery` or
+ * `buildListQueryParams`. Object-valued fields use `deepObject` style.
+ */
+export const toQueryParameters = (
+  schema: z.ZodTypeAny,
+  options: Omit<JsonSchemaOptions, "target"> = {}
+): OpenApiParameter[] => {
+  const opts: JsonSchemaOptions = { ...options, target: "openApi" };
+  const meta = getMeta(schema);
+  const object = unwrapSchema(schema);
+  if (!(object instanceof z.ZodObject)) return [];
+
+  const listParams = meta?.kind === "listQueryParams" ? meta.constraints : undefined;
+  return Object.entries(object.shape as z.ZodRawShape).flatMap(([name, field]) => {
+    if (listParams && name === "filter")
+      return listFilterParameters(listParams.filters as FilterSpec, opts);
+    if (listParams && name === "sort") {
+      const keys = listParams.sortKeys as readonly string[];
+      return [
+        {
+          name,
+          in: "query" as const,
+          required: false,
+          description: `Comma-separated sort keys, prefix with "-" for descending: ${keys.join(", ")}`,
+          schema: { type: "string" },
+        },
+      ];
+    }
+    const json = convert(field, opts);
+    const parameter: OpenApiParameter = {
+      name,
+      in: "query",
+      required: !field.isOptional(),
+      schema: json,
+    };
+    if (typeof json.title === "string") parameter.description = json.title;
+    if (json.type === "object") {
+      parameter.style = "deepObject";
+      parameter.explode = true;
+    }
+    return [parameter];
+  });
+};
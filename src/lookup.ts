@@ -0,0 +1,255 @@
+// src/lookup.ts
+import { z } from "zod";
+import { CustomMessages } from "./index";
+import { translate } from "./i18n";
+import { findMeta, withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Async uniqueness / existence checks
+ * `slug().unique(lookup)`, `uuid().exists(lookup)`; use parseAsync.
+ * Lookups of one parse made in the same tick (e.g. every item of an
+ * array) are sent to the checker as one call.
+ * ------------------------------------- */
+
+/**
+ * Receives distinct values and resolves to the ones that exist, e.g.
+ * `SELECT slug FROM pages WHERE slug = ANY($1)`. Cancel work on `signal`.
+ */
+export type Lookup<T> = (
+  values: T[],
+  context: { signal: AbortSignal }
+) => Promise<Iterable<T>> | Iterable<T>;
+
+export interface LookupOptions {
+  /** Defaults to the fragment label */
+  label?: string;
+  /** `validation` replaces the "already taken" / "does not exist" message */
+  messages?: CustomMessages | string;
+  /** Group the lookups of one parse made in the same tick into one call (default true) */
+  batch?: boolean;
+  /** Look each value up once per parse (default false) */
+  memoize?: boolean;
+  /** Milliseconds; a slower lookup is aborted and reported as `lookup.timeout` */
+  timeout?: number;
+  /** Aborting rejects the parse with the signal's reason */
+  signal?: AbortSignal | (() => AbortSignal | undefined);
+}
+
+export class LookupTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`Lookup timed out after ${timeout}ms`);
+    this.name = "LookupTimeoutError";
+  }
+}
+
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const abortReason = (signal: AbortSignal) =>
+  signal.reason ?? new Error("The lookup was aborted");
+
+interface ParseState<T> {
+  memo: Map<T, Promise<boolean>>;
+  batch?: { values: Set<T>; found: Promise<Set<T>> };
+}
+
+/**
+ * `has(value, scope)` over a lookup, with batching, memoization, timeout
+ * and abort. Batches and memoized results belong to `scope`, one parse.
+ */
+const createChecker = <T>(lookup: Lookup<T>, options: LookupOptions) => {
+  const states = new WeakMap<object, ParseState<T>>();
+
+  const run = async (values: T[]): Promise<Set<T>> => {
+    const outer = typeof options.signal === "function" ? options.signal() : options.signal;
+    if (outer?.aborted) throw abortReason(outer);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(outer && abortReason(outer));
+    outer?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      options.timeout === undefined
+        ? undefined
+        : setTimeout(() => controller.abort(new LookupTimeoutError(options.timeout as number)), options.timeout);
+    const aborted = new Promise<never>((_, reject) =>
+      controller.signal.addEventListener("abort", () => reject(abortReason(controller.signal)), {
+        once: true,
+      })
+    );
+    try {
+      const found = Promise.resolve(lookup(values, { signal: controller.signal }));
+      return new Set(await Promise.race([found, aborted]));
+    } finally {
+      clearTimeout(timer);
+      outer?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const batched = (state: ParseState<T>, value: T) => {
+    if (!state.batch) {
+      const current = { values: new Set<T>(), found: Promise.resolve(new Set<T>()) };
+      current.found = nextTick().then(() => {
+        if (state.batch === current) state.batch = undefined;
+        return run(Array.from(current.values));
+      });
+      state.batch = current;
+    }
+    state.batch.values.add(value);
+    return state.batch.found;
+  };
+
+  return (value: T, scope: object): Promise<boolean> => {
+    let state = states.get(scope);
+    if (!state) states.set(scope, (state = { memo: new Map() }));
+    const cached = options.memoize ? state.memo.get(value) : undefined;
+    if (cached) return cached;
+    const found = (options.batch === false ? run([value]) : batched(state, value)).then((set) =>
+      set.has(value)
+    );
+    if (options.memoize) state.memo.set(value, found);
+    return found;
+  };
+};
+
+type LookupTransform<S extends z.ZodTypeAny> = (
+  scope: object
+) => (value: z.output<S>, ctx: z.RefinementCtx) => z.output<S> | Promise<z.output<S>>;
+
+const TRANSFORM_KEY = "zodFragmentLookup";
+
+/**
+ * The lookup transform, bound to the parse it runs in: the parse
+ * context's `common` object is shared by every schema of one parse and
+ * by no other parse.
+ */
+class LookupEffects<S extends z.ZodTypeAny> extends z.ZodEffects<S, z.output<S>, z.input<S>> {
+  _parse(input: z.ParseInput): z.ParseReturnType<z.output<S>> {
+    const transform = (this._def as unknown as Record<string, LookupTransform<S>>)[TRANSFORM_KEY];
+    const effect = { type: "transform" as const, transform: transform(input.parent.common) };
+    return new z.ZodEffects<S, z.output<S>, z.input<S>>({ ...this._def, effect })._parse(input);
+  }
+}
+
+const lookupCheck = <S extends z.ZodTypeAny>(
+  schema: S,
+  lookup: Lookup<NonNullable<z.output<S>>>,
+  options: LookupOptions,
+  mode: "unique" | "exists"
+): z.ZodEffects<S, z.output<S>, z.input<S>> => {
+  const meta = findMeta(schema);
+  const label = options.label ?? meta?.label ?? "This field";
+  const validation =
+    typeof options.messages === "string" ? options.messages : options.messages?.validation;
+  const has = createChecker(lookup, options);
+
+  const check = async (value: NonNullable<z.output<S>>, ctx: z.RefinementCtx, scope: object) => {
+    let exists: boolean;
+    try {
+      exists = await has(value, scope);
+    } catch (error) {
+      if (!(error instanceof LookupTimeoutError)) throw error;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: translate("lookupTimeout", { label }),
+        params: { code: "lookup.timeout" },
+      });
+      return value;
+    }
+    if (mode === "unique" ? exists : !exists)
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: validation || translate(mode === "unique" ? "taken" : "notFound", { label }),
+        params: { code: mode === "unique" ? "lookup.taken" : "lookup.not_found" },
+      });
+    return value;
+  };
+  // absent values stay synchronous, so `.isOptional()` and sync parses of them still work
+  const transform: LookupTransform<S> = (scope) => (value, ctx) =>
+    value === undefined || value === null || value === "" ? value : check(value, ctx, scope);
+
+  return withMeta(
+    // a transform only runs once the value is otherwise valid, so bad input isn't looked up
+    new LookupEffects<S>({
+      schema,
+      errorMap: schema._def.errorMap,
+      description: schema.description,
+      typeName: z.ZodFirstPartyTypeKind.ZodEffects,
+      effect: { type: "transform", transform: transform({}) },
+      [TRANSFORM_KEY]: transform,
+    } as z.ZodEffectsDef<S>),
+    {
+      kind: meta?.kind ?? "lookup",
+      label,
+      messages: options.messages,
+      constraints: {
+        lookup: mode,
+        batch: options.batch !== false,
+        memoize: !!options.memoize,
+        timeout: options.timeout,
+      },
+    }
+  );
+};
+
+/** Fails with `lookup.taken` when the lookup finds the value */
+export const checkUnique = <S extends z.ZodTypeAny>(
+  schema: S,
+  lookup: Lookup<NonNullable<z.output<S>>>,
+  options: LookupOptions = {}
+) => lookupCheck(schema, lookup, options, "unique");
+
+/** Fails with `lookup.not_found` when the lookup doesn't find the value */
+export const checkExists = <S extends z.ZodTypeAny>(
+  schema: S,
+  lookup: Lookup<NonNullable<z.output<S>>>,
+  options: LookupOptions = {}
+) => lookupCheck(schema, lookup, options, "exists");
+
+export interface LookupMethods<S extends z.ZodTypeAny> {
+  unique: (
+    lookup: Lookup<NonNullable<z.output<S>>>,
+    options?: LookupOptions
+  ) => z.ZodEffects<S, z.output<S>, z.input<S>>;
+  exists: (
+    lookup: Lookup<NonNullable<z.output<S>>>,
+    options?: LookupOptions
+  ) => z.ZodEffects<S, z.output<S>, z.input<S>>;
+}
+
+export type WithLookups<S extends z.ZodTypeAny> = S & LookupMethods<S>;
+
+/** Attach `.unique(lookup)` / `.exists(lookup)` to a fragment */
+export const withLookups = <S extends z.ZodTypeAny>(schema: S): WithLookups<S> =>
+  Object.assign(schema, {
+    unique: (lookup: Lookup<NonNullable<z.output<S>>>, options?: LookupOptions) =>
+      checkUnique(schema, lookup, options),
+    exists: (lookup: Lookup<NonNullable<z.output<S>>>, options?: LookupOptions) =>
+      checkExists(schema, lookup, options),
+  });
+
+/* ---------------------------------------
+ * Checkers
+ * ------------------------------------- */
+
+/** Adapt a one-value check (`isEmailTaken(email)`); values are checked in parallel */
+export const eachValue =
+  <T>(check: (value: T, context: { signal: AbortSignal }) => Promise<boolean> | boolean): Lookup<T> =>
+  async (values, context) => {
+    const results = await Promise.all(values.map((value) => check(value, context)));
+    return values.filter((_, i) => results[i]);
+  };
+
+export interface MemoryLookup<T> extends Lookup<T> {
+  values: Set<T>;
+  /** Values passed to every call, in order */
+  calls: T[][];
+}
+
+/** Checker over an in-memory set, e.g. for prototypes or reserved names */
+export const memoryLookup = <T>(values: Iterable<T> = []): MemoryLookup<T> => {
+  const stored = new Set(values);
+  const calls: T[][] = [];
+  const lookup: Lookup<T> = (batch) => {
+    calls.push(batch);
+    return batch.filter((value) => stored.has(value));
+  };
+  return Object.assign(lookup, { values: stored, calls });
+};
@@ -0,0 +1,181 @@
+// src/meta.ts
+import { z } from "zod";
+import type { CustomMessages } from "./index";
+import { toJsonSchema } from "./json-schema";
+
+/* ---------------------------------------
+ * Fragment metadata
+ * Stored on the schema's _def, so it survives Zod chaining that
+ * copies the definition (.min, .max, .regex, .describe ...).
+ * ------------------------------------- */
+export interface FragmentMeta {
+  /** Fragment name, e.g. "requiredString" or "pinCode" */
+  kind: string;
+  label?: string;
+  /** Custom messages passed by the caller */
+  messages?: CustomMessages | string;
+  /** Fragment-specific settings (sort keys, currency, filter spec ...) */
+  constraints?: Record<string, unknown>;
+  /** Normalization applied to the value, in order: "trim", "lowercase" ... */
+  normalize?: readonly string[];
+  /** JSON Schema keywords the Zod structure alone can't express */
+  jsonSchema?: Record<string, unknown>;
+}
+
+const META_KEY = "zodFragment";
+
+export const withMeta = <T extends z.ZodTypeAny>(schema: T, meta: FragmentMeta): T => {
+  (schema._def as Record<string, unknown>)[META_KEY] = meta;
+  return schema;
+};
+
+export const getMeta = (schema: z.ZodTypeAny): FragmentMeta | undefined =>
+  (schema._def as Record<string, unknown>)[META_KEY] as FragmentMeta | undefined;
+
+/* ---------------------------------------
+ * Introspection
+ * ------------------------------------- */
+
+// the `_def` fields of the wrapper types below
+interface WrapperDef {
+  typeName: z.ZodFirstPartyTypeKind;
+  innerType?: z.ZodTypeAny;
+  schema?: z.ZodTypeAny;
+  type?: z.ZodTypeAny;
+  out?: z.ZodTypeAny;
+}
+
+/** The schema one layer down, or undefined for a leaf */
+const innerLayer = (schema: z.ZodTypeAny): z.ZodTypeAny | undefined => {
+  const def = schema._def as WrapperDef;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return def.innerType;
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return def.schema;
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return def.type;
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return def.out;
+    default:
+      return undefined;
+  }
+};
+
+/** Peel optional / nullable / default / effects / pipeline wrappers */
+export const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  let current = schema;
+  for (let inner = innerLayer(current); inner; inner = innerLayer(current)) current = inner;
+  return current;
+};
+
+/**
+ * Metadata of a fragment, including one wrapped by `.optional()`,
+ * `.default()`, `.refine()` ... Outer layers win; constraints are merged
+ * and normalization steps are listed innermost first.
+ */
+export const findMeta = (schema: z.ZodTypeAny): FragmentMeta | undefined => {
+  const layers: FragmentMeta[] = [];
+  for (let current: z.ZodTypeAny | undefined = schema; current; current = innerLayer(current)) {
+    const meta = getMeta(current);
+    if (meta) layers.unshift(meta);
+  }
+  if (!layers.length) return undefined;
+  return layers.reduce((inner, outer) => ({
+    ...inner,
+    ...outer,
+    label: outer.label ?? inner.label,
+    messages: outer.messages ?? inner.messages,
+    constraints: { ...inner.constraints, ...outer.constraints },
+    normalize: Array.from(new Set([...(inner.normalize || []), ...(outer.normalize || [])])),
+  }));
+};
+
+export interface FieldDescriptor {
+  name: string;
+  /** Path from the described object, e.g. ["address", "pin"] */
+  path: string[];
+  /** Fragment kind, or the Zod type ("string", "object" ...) for plain schemas */
+  kind: string;
+  label?: string;
+  required: boolean;
+  nullable: boolean;
+  default?: unknown;
+  /** Length/range/format/pattern/enum rules plus fragment settings */
+  constraints: Record<string, unknown>;
+  normalize: string[];
+  messages?: CustomMessages | string;
+  /** Descriptors of a nested object */
+  fields?: FieldDescriptor[];
+  schema: z.ZodTypeAny;
+}
+
+const CONSTRAINT_KEYWORDS = [
+  "minLength",
+  "maxLength",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "enum",
+  "const",
+  "minItems",
+  "maxItems",
+];
+
+const zodKind = (schema: z.ZodTypeAny) => {
+  const name = String(schema._def.typeName).replace(/^Zod/, "");
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+const defaultOf = (schema: z.ZodTypeAny): unknown => {
+  for (let current: z.ZodTypeAny | undefined = schema; current; current = innerLayer(current))
+    if (current instanceof z.ZodDefault) return current._def.defaultValue();
+  return undefined;
+};
+
+const describeField = (name: string, schema: z.ZodTypeAny, path: string[]): FieldDescriptor => {
+  const meta = findMeta(schema);
+  const base = unwrapSchema(schema);
+  const json = toJsonSchema(schema, { target: "openApi", errorMessages: false });
+  const constraints: Record<string, unknown> = {};
+  for (const keyword of CONSTRAINT_KEYWORDS)
+    if (json[keyword] !== undefined) constraints[keyword] = json[keyword];
+
+  const descriptor: FieldDescriptor = {
+    name,
+    path,
+    kind: meta?.kind ?? zodKind(base),
+    label: meta?.label,
+    required: !schema.isOptional(),
+    nullable: schema.isNullable(),
+    default: defaultOf(schema),
+    constraints: { ...constraints, ...meta?.constraints },
+    normalize: [...(meta?.normalize || [])],
+    messages: meta?.messages,
+    schema,
+  };
+  if (base instanceof z.ZodObject) descriptor.fields = describeShape(base, path);
+  return descriptor;
+};
+
+const describeShape = (schema: z.AnyZodObject, path: string[]) =>
+  Object.entries(schema.shape as z.ZodRawShape).map(([name, field]) =>
+    describeField(name, field, [...path, name])
+  );
+
+/**
+ * Field descriptors for a `z.object` built from fragments (refined or
+ * wrapped objects work too), for form builders, admin UIs and docs.
+ */
+export const describeSchema = (schema: z.ZodTypeAny): FieldDescriptor[] => {
+  const base = unwrapSchema(schema);
+  return base instanceof z.ZodObject ? describeShape(base, []) : [];
+};
@@ -0,0 +1,187 @@
+// src/middleware.ts
+import { z } from "zod";
+import { translate } from "./i18n";
+import { PROBLEM_CONTENT_TYPE, ProblemDetails, ProblemDetailsOptions, toProblemDetails } from "./errors";
+import { formCoerce, fromFormData } from "./form-data";
+
+/* ---------------------------------------
+ * Request validation middleware
+ * `validate({ params, query, body, headers })` for Express / Connect and
+ * `withValidation(schemas, handler)` for fetch handlers. Issues of every
+ * part end up in one problem-details body, keyed by location
+ * ("query.limit", "body.email").
+ * ------------------------------------- */
+
+export type RequestPart = "params" | "query" | "headers" | "body";
+
+export type RequestSchemas = { [K in RequestPart]?: z.ZodTypeAny };
+
+export type ValidatedRequest<S extends RequestSchemas> = {
+  [K in keyof S]: S[K] extends z.ZodTypeAny ? z.output<S[K]> : never;
+};
+
+export type RequestInput = { [K in RequestPart]?: unknown };
+
+export interface ValidateOptions extends ProblemDetailsOptions {
+  /** Coerce body values like form fields, for `express.urlencoded()` / multipart bodies */
+  formBody?: boolean;
+}
+
+export type RequestValidationResult<S extends RequestSchemas> =
+  | { success: true; data: ValidatedRequest<S> }
+  | { success: false; error: z.ZodError; problem: ProblemDetails };
+
+const PARTS: RequestPart[] = ["params", "query", "headers", "body"];
+
+const isRawForm = (value: unknown) =>
+  (typeof FormData !== "undefined" && value instanceof FormData) || value instanceof URLSearchParams;
+
+// path params and headers are flat strings; query strings may nest ("filter[status][in]")
+const compile = <S extends RequestSchemas>(schemas: S, options: ValidateOptions) => {
+  const prepared: RequestSchemas = {};
+  if (schemas.params) prepared.params = formCoerce(schemas.params);
+  if (schemas.headers) prepared.headers = formCoerce(schemas.headers);
+  if (schemas.query) prepared.query = fromFormData(schemas.query);
+  const formBody = schemas.body && fromFormData(schemas.body);
+
+  return async (
+    input: RequestInput,
+    issues: z.ZodIssue[] = []
+  ): Promise<RequestValidationResult<S>> => {
+    const data: Record<string, unknown> = {};
+    for (const part of PARTS) {
+      const schema =
+        part === "body" && formBody && (options.formBody || isRawForm(input.body))
+          ? formBody
+          : prepared[part] ?? schemas[part];
+      if (!schema || issues.some((issue) => issue.path[0] === part)) continue;
+      const result = await schema.safeParseAsync(input[part]);
+      if (result.success) data[part] = result.data;
+      else issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [part, ...issue.path] })));
+    }
+    if (!issues.length) return { success: true, data: data as ValidatedRequest<S> };
+    const error = new z.ZodError(issues);
+    return { success: false, error, problem: toProblemDetails(error, options) };
+  };
+};
+
+/** Validate request parts without a framework, e.g. in tests or custom adapters */
+export const validateRequest = <S extends RequestSchemas>(
+  schemas: S,
+  input: RequestInput,
+  options: ValidateOptions = {}
+) => compile(schemas, options)(input);
+
+/* ---------------------------------------
+ * Express / Connect
+ * ------------------------------------- */
+
+/** The parts of an Express / Connect request the middleware reads and writes */
+export interface ConnectRequest {
+  params?: unknown;
+  query?: unknown;
+  headers?: unknown;
+  body?: unknown;
+  validated?: unknown;
+}
+
+/** `http.ServerResponse` subset, so plain Connect apps and mocks work */
+export interface ConnectResponse {
+  statusCode: number;
+  setHeader: (name: string, value: string) => unknown;
+  end: (body?: string) => unknown;
+}
+
+export type NextFunction = (error?: unknown) => void;
+
+/**
+ * Middleware that validates `req.params`, `req.query`, `req.headers` and
+ * `req.body`, stores the parsed parts on `req.validated` and answers 400
+ * with problem details otherwise. `.get(req)` reads them back typed.
+ * Errors thrown by async checks are passed to `next`.
+ */
+export const validate = <S extends RequestSchemas>(schemas: S, options: ValidateOptions = {}) => {
+  const run = compile(schemas, options);
+  const middleware = (req: ConnectRequest, res: ConnectResponse, next: NextFunction) => {
+    run(req).then((result) => {
+      if (result.success) {
+        req.validated = result.data;
+        return next();
+      }
+      res.statusCode = result.problem.status;
+      res.setHeader("Content-Type", PROBLEM_CONTENT_TYPE);
+      res.end(JSON.stringify(result.problem));
+    }, next);
+  };
+  return Object.assign(middleware, {
+    schemas,
+    get: (req: ConnectRequest) => req.validated as ValidatedRequest<S>,
+  });
+};
+
+/* ---------------------------------------
+ * Fetch handlers (Request -> Response)
+ * ------------------------------------- */
+
+export interface FetchContext {
+  /** Route params, or a promise of them (Next.js route handlers) */
+  params?: unknown;
+}
+
+// a body that can't be read as its content type is a 400 issue, not a thrown error
+const malformedBody = (format: "json" | "form"): z.ZodIssue => ({
+  code: z.ZodIssueCode.custom,
+  path: ["body"],
+  message: translate(format, { label: "Request body" }),
+  params: { code: `body.${format}` },
+});
+
+const readBody = async (request: Request): Promise<{ body?: unknown; issue?: z.ZodIssue }> => {
+  if (request.method === "GET" || request.method === "HEAD") return {};
+  const type = request.headers.get("content-type") ?? "";
+  if (/multipart\/form-data|application\/x-www-form-urlencoded/i.test(type)) {
+    try {
+      return { body: await request.formData() };
+    } catch {
+      // e.g. a multipart body without its boundary
+      return { issue: malformedBody("form") };
+    }
+  }
+  const text = await request.text();
+  if (!text) return {};
+  if (!/json/i.test(type)) return { body: text };
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { issue: malformedBody("json") };
+  }
+};
+
+/**
+ * Wrap a fetch handler: the query comes from the URL, the body is read
+ * according to its content type and params from the handler's context.
+ */
+export const withValidation = <S extends RequestSchemas, C extends FetchContext = FetchContext>(
+  schemas: S,
+  handler: (validated: ValidatedRequest<S>, request: Request, context?: C) => Response | Promise<Response>,
+  options: ValidateOptions = {}
+) => {
+  const run = compile(schemas, options);
+  return async (request: Request, context?: C): Promise<Response> => {
+    const { body, issue } = schemas.body ? await readBody(request) : {};
+    const result = await run(
+      {
+        params: await context?.params,
+        query: new URL(request.url).searchParams,
+        headers: Object.fromEntries(request.headers),
+        body,
+      },
+      issue ? [issue] : []
+    );
+    if (result.success) return handler(result.data, request, context);
+    return new Response(JSON.stringify(result.problem), {
+      status: result.problem.status,
+      headers: { "Content-Type": PROBLEM_CONTENT_TYPE },
+    });
+  };
+};
@@ -0,0 +1,331 @@
+// src/password.ts
+import { z } from "zod";
+import { CustomMessages } from "./index";
+import { MessageKey, MessageParams, translate, fragmentErrorMap } from "./i18n";
+import { withMeta } from "./meta";
+import { graphemeLength } from "./sanitize";
+import { ObjectRule } from "./rules";
+
+/* ---------------------------------------
+ * Passwords
+ * `password(policy)` reports every failing rule as its own issue,
+ * `passwordChecklist` gives the same rules for a live form checklist.
+ * The value is never trimmed or normalized.
+ * ------------------------------------- */
+
+// Loaded on first use so browser bundles can stub out "fs"
+const nodeFs = (): typeof import("fs") => require("fs");
+
+export interface PasswordPolicy {
+  label?: string;
+  /** `required` / `invalid` only; rule messages come from the locale catalog */
+  messages?: CustomMessages | string;
+  /** Graphemes (default 8) */
+  minLength?: number;
+  /** Graphemes (default 128) */
+  maxLength?: number;
+  /** `true` or a minimum count */
+  lowercase?: boolean | number;
+  uppercase?: boolean | number;
+  digit?: boolean | number;
+  /** Anything that isn't a letter or digit, including spaces */
+  symbol?: boolean | number;
+  /** Longest run of one repeated character (an integer of at least 1), e.g. 2 rejects "aaa" */
+  maxRepeat?: number;
+  /** Words that must not appear in any case, e.g. the product name */
+  forbiddenWords?: readonly string[];
+  /**
+   * Reject common passwords (default true): the registered list, or this one.
+   * A listed word followed by digits or symbols ("Sunshine2024!") is rejected too.
+   */
+  commonPasswords?: boolean | Iterable<string>;
+  /** Minimum `passwordStrength(...).entropy` in bits */
+  minEntropy?: number;
+}
+
+export type PasswordRule =
+  | "minLength"
+  | "maxLength"
+  | "lowercase"
+  | "uppercase"
+  | "digit"
+  | "symbol"
+  | "maxRepeat"
+  | "forbiddenWords"
+  | "commonPasswords"
+  | "minEntropy";
+
+export interface PasswordCheck {
+  rule: PasswordRule;
+  /** Issue code, e.g. "password.uppercase" */
+  code: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface PasswordStrength {
+  /** Estimated bits: length x log2(size of the character classes used) */
+  entropy: number;
+  /** 0 (very weak) to 4 (very strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+}
+
+/* ---------------------------------------
+ * Common passwords
+ * ------------------------------------- */
+
+/** A short built-in list; load a bigger one with `loadCommonPasswords` */
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456", "123456789", "12345678", "12345", "1234567", "1234567890", "111111",
+  "000000", "123123", "654321", "666666", "121212", "112233", "password", "password1",
+  "passw0rd", "p@ssw0rd", "qwerty", "qwerty123", "qwertyuiop", "asdfgh", "asdfghjkl",
+  "zxcvbnm", "1q2w3e4r", "1qaz2wsx", "abc123", "abcd1234", "iloveyou", "admin",
+  "administrator", "welcome", "letmein", "monkey", "dragon", "sunshine", "princess",
+  "football", "baseball", "cricket", "superman", "batman", "master", "shadow",
+  "michael", "jennifer", "trustno1", "starwars", "whatever", "freedom", "hello",
+  "secret", "login", "changeme", "default", "test", "guest", "india", "india123",
+];
+
+const registered = new Set(COMMON_PASSWORDS);
+
+/** Add passwords to the list every `password()` checks by default */
+export const registerCommonPasswords = (
+  passwords: Iterable<string>,
+  options: { replace?: boolean } = {}
+): number => {
+  if (options.replace) registered.clear();
+  for (const value of passwords) {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed) registered.add(trimmed);
+  }
+  return registered.size;
+};
+
+/** Register a newline-separated list (e.g. a SecLists file); Node only */
+export const loadCommonPasswords = async (
+  path: string,
+  options: { replace?: boolean } = {}
+): Promise<number> => {
+  const text = await nodeFs().promises.readFile(path, "utf8");
+  return registerCommonPasswords(text.split(/\r?\n/), options);
+};
+
+// per-policy lists, normalized once
+const policyLists = new WeakMap<Iterable<string>, Set<string>>();
+
+const toSet = (passwords: boolean | Iterable<string> | undefined) => {
+  if (passwords === false) return undefined;
+  if (passwords === undefined || passwords === true) return registered;
+  let list = policyLists.get(passwords);
+  if (!list) {
+    list = new Set(Array.from(passwords, (value) => value.trim().toLowerCase()));
+    policyLists.set(passwords, list);
+  }
+  return list;
+};
+
+const isCommon = (value: string, list: Set<string>) => {
+  const lower = value.toLowerCase();
+  // "Sunshine2024!" -> "sunshine"
+  const base = lower.replace(/[^\p{L}]+$/u, "");
+  return list.has(lower) || (base.length >= 4 && list.has(base));
+};
+
+/* ---------------------------------------
+ * Rules
+ * ------------------------------------- */
+
+const CLASS_PATTERNS = {
+  lowercase: /\p{Ll}/gu,
+  uppercase: /\p{Lu}/gu,
+  digit: /\p{Nd}/gu,
+  symbol: /[^\p{L}\p{N}]/gu,
+} as const;
+
+const CLASS_MESSAGES: Record<keyof typeof CLASS_PATTERNS, MessageKey> = {
+  lowercase: "passwordLowercase",
+  uppercase: "passwordUppercase",
+  digit: "passwordDigit",
+  symbol: "passwordSymbol",
+};
+
+const countMatches = (value: string, pattern: RegExp) => (value.match(pattern) || []).length;
+
+/** Entropy estimate and 0-4 score */
+export const passwordStrength = (value: string): PasswordStrength => {
+  let pool = 0;
+  if (/[a-z]/.test(value)) pool += 26;
+  if (/[A-Z]/.test(value)) pool += 26;
+  if (/[0-9]/.test(value)) pool += 10;
+  if (/[^A-Za-z0-9\p{L}\p{N}]/u.test(value)) pool += 33;
+  if (/[^\x00-\x7f]/.test(value)) pool += 100;
+  const entropy = pool ? Math.round(graphemeLength(value) * Math.log2(pool) * 10) / 10 : 0;
+  const score = entropy < 28 ? 0 : entropy < 36 ? 1 : entropy < 60 ? 2 : entropy < 100 ? 3 : 4;
+  return { entropy, score };
+};
+
+// `(.)\1{0}` would match any character, so a run limit below 1 rejects every password
+const assertPolicy = (policy: PasswordPolicy) => {
+  const { maxRepeat } = policy;
+  if (maxRepeat !== undefined && !(Number.isInteger(maxRepeat) && maxRepeat >= 1))
+    throw new RangeError(`Invalid maxRepeat: ${maxRepeat}`);
+};
+
+/** Every rule of the policy with its pass/fail state, in a stable order */
+export const passwordChecklist = (value: string, policy: PasswordPolicy = {}): PasswordCheck[] => {
+  assertPolicy(policy);
+  const label = policy.label ?? "Password";
+  const checks: PasswordCheck[] = [];
+  const add = (
+    rule: PasswordRule,
+    code: string,
+    passed: boolean,
+    key: MessageKey,
+    params: MessageParams = {}
+  ) => checks.push({ rule, code, passed, message: translate(key, { label, ...params }) });
+
+  const length = graphemeLength(value);
+  const min = policy.minLength ?? 8;
+  const max = policy.maxLength ?? 128;
+  add("minLength", "password.min", length >= min, "minLength", { min });
+  add("maxLength", "password.max", length <= max, "maxLength", { max });
+
+  for (const name of Object.keys(CLASS_PATTERNS) as (keyof typeof CLASS_PATTERNS)[]) {
+    const required = policy[name];
+    if (!required) continue;
+    const count = required === true ? 1 : required;
+    const passed = countMatches(value, CLASS_PATTERNS[name]) >= count;
+    add(name, `password.${name}`, passed, CLASS_MESSAGES[name], { min: count });
+  }
+
+  if (policy.maxRepeat !== undefined)
+    add(
+      "maxRepeat",
+      "password.repeat",
+      !new RegExp(`(.)\\1{${policy.maxRepeat}}`, "u").test(value),
+      "passwordRepeat",
+      { max: policy.maxRepeat }
+    );
+
+  for (const word of policy.forbiddenWords ?? [])
+    add(
+      "forbiddenWords",
+      "password.forbidden",
+      !value.toLowerCase().includes(word.toLowerCase()),
+      "passwordForbidden",
+      { word }
+    );
+
+  const common = toSet(policy.commonPasswords);
+  if (common) add("commonPasswords", "password.common", !isCommon(value, common), "passwordCommon");
+
+  if (policy.minEntropy !== undefined)
+    add(
+      "minEntropy",
+      "password.entropy",
+      passwordStrength(value).entropy >= policy.minEntropy,
+      "passwordEntropy"
+    );
+
+  return checks;
+};
+
+const toMessages = (msg?: CustomMessages | string): CustomMessages =>
+  typeof msg === "string"
+    ? { required: msg, invalid: msg, validation: msg }
+    : msg || {};
+
+/**
+ * Password that satisfies `policy`. Each failing rule is a separate issue
+ * (`password.min`, `password.uppercase`, `password.common` ...).
+ */
+export const password = (policy: PasswordPolicy = {}) => {
+  assertPolicy(policy);
+  const label = policy.label ?? "Password";
+  const messages = toMessages(policy.messages);
+  const schema = z
+    .string({
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+        validation: () => messages.required || translate("required", { label }),
+      }),
+    })
+    .min(1)
+    .superRefine((value, ctx) => {
+      if (!value) return;
+      for (const check of passwordChecklist(value, policy))
+        if (!check.passed)
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: check.message,
+            params: { code: check.code, rule: check.rule },
+          });
+    });
+  return withMeta(schema, {
+    kind: "password",
+    label,
+    messages: policy.messages,
+    constraints: {
+      minLength: policy.minLength ?? 8,
+      maxLength: policy.maxLength ?? 128,
+      lowercase: policy.lowercase,
+      uppercase: policy.uppercase,
+      digit: policy.digit,
+      symbol: policy.symbol,
+      maxRepeat: policy.maxRepeat,
+      forbiddenWords: policy.forbiddenWords,
+      commonPasswords: policy.commonPasswords !== false,
+      minEntropy: policy.minEntropy,
+    },
+    jsonSchema: {
+      format: "password",
+      writeOnly: true,
+      minLength: policy.minLength ?? 8,
+      maxLength: policy.maxLength ?? 128,
+    },
+  });
+};
+
+/* ---------------------------------------
+ * Personal information
+ * ------------------------------------- */
+
+// "ravi.kumar@example.com" -> ["ravi.kumar@example.com", "ravi.kumar", "ravi", "kumar"]
+const personalParts = (value: string) => {
+  const lower = value.trim().toLowerCase();
+  const local = lower.includes("@") ? lower.slice(0, lower.indexOf("@")) : lower;
+  return [lower, local, ...local.split(/[^\p{L}\p{N}]+/u)].filter((part) => part.length >= 3);
+};
+
+/**
+ * `withRules` rule: the password must not contain the value of sibling fields
+ * (email, its local part, name words of 3+ characters), in any case.
+ */
+export const passwordExcludes = <T>(
+  field: keyof T & string,
+  others: readonly (keyof T & string)[],
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "passwordExcludes",
+  fields: [field, ...others],
+  check: (value, { ctx, label }) => {
+    const v = value as Record<string, unknown>;
+    const secret = v[field];
+    if (typeof secret !== "string" || !secret) return;
+    const lower = secret.toLowerCase();
+    for (const other of others) {
+      const sibling = v[other];
+      if (typeof sibling !== "string") continue;
+      if (personalParts(sibling).some((part) => lower.includes(part)))
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message:
+            toMessages(msg).validation ||
+            translate("passwordPersonal", { label: label(field), other: label(other) }),
+          params: { code: "password.personal" },
+        });
+    }
+  },
+});
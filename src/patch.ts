@@ -0,0 +1,175 @@
+// src/patch.ts
+import { z } from "zod";
+import { findMeta, getMeta, withMeta } from "./meta";
+import { toJsonSchema } from "./json-schema";
+
+/* ---------------------------------------
+ * PATCH schemas from create schemas
+ * Every field optional, defaults dropped, chosen fields nullable,
+ * field validation kept. Omitted keys stay out of the output.
+ * ------------------------------------- */
+
+/** Field schema without its `.optional()` / `.default()` layers */
+type Unwrapped<S> = S extends z.ZodOptional<infer I>
+  ? Unwrapped<I>
+  : S extends z.ZodDefault<infer I>
+  ? Unwrapped<I>
+  : S;
+
+/** The object under `.refine()` / `.transform()` layers */
+type BaseObject<S> = S extends z.AnyZodObject
+  ? S
+  : S extends z.ZodEffects<infer I>
+  ? BaseObject<I>
+  : never;
+
+type PatchField<S, D extends boolean> = D extends true
+  ? Unwrapped<S> extends z.AnyZodObject
+    ? PatchSchema<Unwrapped<S>, never, true>
+    : [BaseObject<Unwrapped<S>>] extends [never]
+    ? Unwrapped<S>
+    : z.ZodType<
+        | z.output<Extract<Unwrapped<S>, z.ZodTypeAny>>
+        | z.output<PatchSchema<BaseObject<Unwrapped<S>>, never, true>>
+      >
+  : Unwrapped<S>;
+
+type PatchShape<T extends z.ZodRawShape, N extends string, D extends boolean> = {
+  [K in keyof T]: z.ZodOptional<
+    K extends N
+      ? z.ZodNullable<Extract<PatchField<T[K], D>, z.ZodTypeAny>>
+      : Extract<PatchField<T[K], D>, z.ZodTypeAny>
+  >;
+};
+
+export type PatchSchema<
+  S,
+  N extends string = never,
+  D extends boolean = false
+> = BaseObject<S> extends z.ZodObject<infer T, infer U, infer C>
+  ? z.ZodObject<PatchShape<T, N, D>, U, C>
+  : never;
+
+export interface PatchOptions<N extends string = string, D extends boolean = false> {
+  /** Fields that may be sent as `null` to clear them */
+  nullable?: readonly N[];
+  /**
+   * Also patch nested objects. A nested object with its own refine/transform
+   * (e.g. `priceObject`) runs it when the patch has all of its required keys;
+   * otherwise only the fields that were sent are validated.
+   */
+  deep?: D;
+}
+
+const unwrapField = (schema: z.ZodTypeAny) => {
+  let current = schema;
+  while (current instanceof z.ZodOptional || current instanceof z.ZodDefault)
+    current = current._def.innerType;
+  return current;
+};
+
+const baseObject = (schema: z.ZodTypeAny): z.AnyZodObject | undefined => {
+  let current = schema;
+  while (current instanceof z.ZodEffects) current = current._def.schema;
+  return current instanceof z.ZodObject ? current : undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// optional by structure, so building a patch never runs a field's checks
+const isOptionalField = (schema: z.ZodTypeAny): boolean => {
+  let current = schema;
+  while (current instanceof z.ZodEffects || current instanceof z.ZodNullable || current instanceof z.ZodBranded)
+    current = current instanceof z.ZodEffects ? current._def.schema : current.unwrap();
+  return (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodDefault ||
+    current instanceof z.ZodUnknown ||
+    current instanceof z.ZodAny
+  );
+};
+
+const BRANCHES_KEY = "zodFragmentPatch";
+
+interface Branches {
+  full: z.ZodTypeAny;
+  partial: z.ZodTypeAny;
+  required: string[];
+}
+
+// hands the value to one branch in the parse's own mode, so async checks in it work under parseAsync
+class CompleteOrPartial extends z.ZodEffects<z.ZodUnknown> {
+  _parse(input: z.ParseInput): z.ParseReturnType<unknown> {
+    const { full, partial, required } = (this._def as unknown as Record<string, Branches>)[BRANCHES_KEY];
+    const value = input.data;
+    const complete = isRecord(value) && required.every((key) => value[key] !== undefined);
+    return (complete ? full : partial)._parse(input);
+  }
+}
+
+/** Full schema for a complete value, the field-by-field patch otherwise */
+const completeOrPartial = (full: z.ZodTypeAny, object: z.AnyZodObject) => {
+  const shape = object.shape as z.ZodRawShape;
+  const branches: Branches = {
+    full,
+    partial: patchObject(object, [], true),
+    required: Object.keys(shape).filter((key) => !isOptionalField(shape[key])),
+  };
+  return new CompleteOrPartial({
+    schema: z.unknown(),
+    typeName: z.ZodFirstPartyTypeKind.ZodEffects,
+    effect: { type: "refinement", refinement: () => undefined },
+    [BRANCHES_KEY]: branches,
+  } as z.ZodEffectsDef<z.ZodUnknown>);
+};
+
+const patchField = (schema: z.ZodTypeAny, nullable: boolean, deep: boolean) => {
+  const meta = findMeta(schema);
+  let field = unwrapField(schema);
+  if (deep && field instanceof z.ZodObject) field = patchObject(field, [], true);
+  else if (deep && baseObject(field)) {
+    const object = baseObject(field) as z.AnyZodObject;
+    field = withMeta(completeOrPartial(field, object), {
+      ...meta,
+      kind: meta?.kind ?? "patch",
+      jsonSchema: toJsonSchema(patchObject(object, [], true), { target: "openApi" }),
+    });
+  }
+  if (nullable) field = field.nullable();
+  return meta ? withMeta(field.optional(), meta) : field.optional();
+};
+
+const patchObject = (object: z.AnyZodObject, nullable: readonly string[], deep: boolean) =>
+  object.extend(
+    Object.fromEntries(
+      Object.entries(object.shape as z.ZodRawShape).map(([key, field]) => [
+        key,
+        patchField(field, nullable.includes(key), deep),
+      ])
+    )
+  );
+
+/**
+ * PATCH body schema from a create schema: every field optional, `.default()`s
+ * dropped (so `page: 1` isn't filled in), `nullable` fields accept `null` to
+ * clear them and a sent field is validated like on create ("" still fails
+ * `requiredString`). Only sent keys are returned. Object-level refinements
+ * of the create schema (`withRules`, `.refine`) are not carried over.
+ */
+export const toPatchSchema = <
+  S extends z.ZodTypeAny,
+  N extends keyof z.output<S> & string = never,
+  D extends boolean = false
+>(
+  schema: S,
+  options: PatchOptions<N, D> = {}
+): PatchSchema<S, N, D> => {
+  const object = baseObject(schema);
+  if (!object) throw new TypeError("toPatchSchema expects an object schema");
+  const nullable = options.nullable ?? [];
+  return withMeta(patchObject(object, nullable, !!options.deep), {
+    kind: "patch",
+    constraints: { source: getMeta(object)?.kind, nullable, deep: !!options.deep },
+  }) as unknown as PatchSchema<S, N, D>;
+};
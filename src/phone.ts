@@ -0,0 +1,205 @@
+// src/phone.ts
+/* ---------------------------------------
+ * Offline phone metadata and E.164 parsing
+ * Patterns match the national significant number (no trunk prefix).
+ * They are deliberately compact: enough to tell mobile from landline
+ * and reject wrong lengths, not a full numbering-plan database.
+ * ------------------------------------- */
+
+export type PhoneType = "mobile" | "fixedLine" | "fixedLineOrMobile";
+
+export interface PhoneCountryMeta {
+  callingCode: string;
+  /** Digit dialled before national numbers, e.g. "0" in the UK */
+  trunkPrefix?: string;
+  nationalLengths: readonly number[];
+  /** Picks this country among others sharing the calling code (NANP) */
+  leadingDigits?: RegExp;
+  mobile?: RegExp;
+  fixedLine?: RegExp;
+  /** Numbers that can't be told apart (US/Canada) */
+  fixedLineOrMobile?: RegExp;
+}
+
+const CA_AREA_CODES =
+  "204|226|236|249|250|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|" +
+  "450|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|" +
+  "778|780|782|807|819|825|867|873|879|902|905";
+
+const NANP_NUMBER = /^[2-9]\d{2}[2-9]\d{6}$/;
+
+export const PHONE_COUNTRIES = {
+  IN: {
+    callingCode: "91",
+    trunkPrefix: "0",
+    nationalLengths: [10],
+    mobile: /^[6-9]\d{9}$/,
+    fixedLine: /^[1-8]\d{9}$/,
+  },
+  AE: {
+    callingCode: "971",
+    trunkPrefix: "0",
+    nationalLengths: [8, 9],
+    mobile: /^5[024568]\d{7}$/,
+    fixedLine: /^[2-4679]\d{7}$/,
+  },
+  GB: {
+    callingCode: "44",
+    trunkPrefix: "0",
+    nationalLengths: [9, 10],
+    mobile: /^7(?:[1-57-9]\d{2}|624)\d{6}$/,
+    fixedLine: /^(?:1\d{8,9}|[23]\d{9})$/,
+  },
+  US: {
+    callingCode: "1",
+    trunkPrefix: "1",
+    nationalLengths: [10],
+    fixedLineOrMobile: NANP_NUMBER,
+  },
+  CA: {
+    callingCode: "1",
+    trunkPrefix: "1",
+    nationalLengths: [10],
+    leadingDigits: new RegExp(`^(?:${CA_AREA_CODES})`),
+    fixedLineOrMobile: NANP_NUMBER,
+  },
+  SA: {
+    callingCode: "966",
+    trunkPrefix: "0",
+    nationalLengths: [9],
+    mobile: /^5\d{8}$/,
+    fixedLine: /^1[1-9]\d{7}$/,
+  },
+  SG: {
+    callingCode: "65",
+    nationalLengths: [8],
+    mobile: /^[89]\d{7}$/,
+    fixedLine: /^6\d{7}$/,
+  },
+  AU: {
+    callingCode: "61",
+    trunkPrefix: "0",
+    nationalLengths: [9],
+    mobile: /^4\d{8}$/,
+    fixedLine: /^[2378]\d{8}$/,
+  },
+};
+
+export type PhoneCountry = keyof typeof PHONE_COUNTRIES;
+
+export const PHONE_COUNTRY_CODES = Object.keys(PHONE_COUNTRIES) as PhoneCountry[];
+
+export const isPhoneCountry = (code: string): code is PhoneCountry =>
+  Object.prototype.hasOwnProperty.call(PHONE_COUNTRIES, code);
+
+export interface PhoneDetails<C extends PhoneCountry = PhoneCountry> {
+  /** "+919876543210" */
+  e164: string;
+  country: C;
+  /** National significant number, without trunk prefix: "9876543210" */
+  national: string;
+  type: PhoneType;
+}
+
+export interface ParsePhoneOptions<C extends PhoneCountry = PhoneCountry> {
+  /** Accepted countries (default: all bundled ones) */
+  countries?: readonly C[];
+  /** Country assumed for numbers written without a calling code */
+  defaultCountry?: C;
+  /** Accepted number types; "fixedLineOrMobile" numbers satisfy either */
+  types?: readonly ("mobile" | "fixedLine")[];
+}
+
+export type PhoneParseResult<C extends PhoneCountry = PhoneCountry> =
+  | { success: true; data: PhoneDetails<C> }
+  | { success: false; reason: "format" | "country" | "type" };
+
+const meta = (country: PhoneCountry): PhoneCountryMeta => PHONE_COUNTRIES[country];
+
+const numberType = (country: PhoneCountry, national: string): PhoneType | undefined => {
+  const m = meta(country);
+  if (m.mobile?.test(national)) return "mobile";
+  if (m.fixedLine?.test(national)) return "fixedLine";
+  if (m.fixedLineOrMobile?.test(national)) return "fixedLineOrMobile";
+  return undefined;
+};
+
+/** Country among those sharing `callingCode` that owns `national` */
+const countryFor = (callingCode: string, national: string): PhoneCountry | undefined => {
+  const candidates = PHONE_COUNTRY_CODES.filter((c) => meta(c).callingCode === callingCode);
+  return (
+    candidates.find((c) => meta(c).leadingDigits?.test(national)) ??
+    candidates.find((c) => !meta(c).leadingDigits)
+  );
+};
+
+const stripTrunk = (country: PhoneCountry, digits: string) => {
+  const { trunkPrefix, nationalLengths } = meta(country);
+  return trunkPrefix &&
+    digits.startsWith(trunkPrefix) &&
+    nationalLengths.includes(digits.length - trunkPrefix.length)
+    ? digits.slice(trunkPrefix.length)
+    : digits;
+};
+
+/** Split "+<code><national>" digits into a country and national number */
+const splitInternational = (digits: string) => {
+  for (const length of [3, 2, 1]) {
+    const code = digits.slice(0, length);
+    // "+44 (0)20 ..." keeps the trunk prefix after the calling code
+    const candidate = countryFor(code, digits.slice(length));
+    if (candidate)
+      return { country: candidate, national: stripTrunk(candidate, digits.slice(length)) };
+  }
+  return undefined;
+};
+
+/**
+ * Parse "+44 20 7946 0958", "00971 50 123 4567", "(415) 555-2671" or
+ * "098765 43210" into E.164 parts. National numbers need `defaultCountry`
+ * (or a single entry in `countries`).
+ */
+export const parsePhone = <C extends PhoneCountry = PhoneCountry>(
+  input: string,
+  options: ParsePhoneOptions<C> = {}
+): PhoneParseResult<C> => {
+  const cleaned = input.trim().replace(/[\s\-.()/]/g, "");
+  if (!/^(?:\+|00)?\d+$/.test(cleaned)) return { success: false, reason: "format" };
+
+  const fallback =
+    options.defaultCountry ?? (options.countries?.length === 1 ? options.countries[0] : undefined);
+  let country: PhoneCountry;
+  let national: string;
+
+  if (/^(?:\+|00)/.test(cleaned)) {
+    const split = splitInternational(cleaned.replace(/^(?:\+|00)/, ""));
+    if (!split) return { success: false, reason: "format" };
+    ({ country, national } = split);
+  } else {
+    if (!fallback) return { success: false, reason: "format" };
+    const { callingCode, nationalLengths } = meta(fallback);
+    // "919876543210": calling code typed without the "+"
+    const withCode =
+      cleaned.startsWith(callingCode) &&
+      nationalLengths.includes(cleaned.length - callingCode.length);
+    national = withCode ? cleaned.slice(callingCode.length) : stripTrunk(fallback, cleaned);
+    country = countryFor(callingCode, national) ?? fallback;
+  }
+
+  const type = numberType(country, national);
+  if (!type) return { success: false, reason: "format" };
+  if (options.countries && !(options.countries as readonly string[]).includes(country))
+    return { success: false, reason: "country" };
+  if (options.types && type !== "fixedLineOrMobile" && !options.types.includes(type))
+    return { success: false, reason: "type" };
+
+  return {
+    success: true,
+    data: {
+      e164: `+${meta(country).callingCode}${national}`,
+      country: country as C,
+      national,
+      type,
+    },
+  };
+};
@@ -0,0 +1,324 @@
+// src/query.ts
+import { z } from "zod";
+import { translate } from "./i18n";
+import { PaginationDefaults, buildPagination } from "./extensions";
+import { withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Filter spec
+ * ------------------------------------- */
+export const FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "in",
+  "nin",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "between",
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export interface FilterFieldSpec<
+  S extends z.ZodTypeAny = z.ZodTypeAny,
+  O extends FilterOperator = FilterOperator
+> {
+  schema: S;
+  ops: readonly O[];
+  label?: string;
+}
+
+export const filterField = <S extends z.ZodTypeAny, O extends FilterOperator>(
+  schema: S,
+  ops: readonly O[],
+  label?: string
+): FilterFieldSpec<S, O> => ({ schema, ops, label });
+
+export type FilterSpec = Record<string, FilterFieldSpec>;
+
+type FilterValue<T, Op> = Op extends "in" | "nin"
+  ? T[]
+  : Op extends "between"
+  ? [T, T]
+  : T;
+
+/** One `{ field, op, value }` node per filter in the query string */
+export type FilterNode<Spec extends FilterSpec> = {
+  [F in keyof Spec & string]: {
+    [Op in Spec[F]["ops"][number]]: {
+      field: F;
+      op: Op;
+      value: FilterValue<z.output<Spec[F]["schema"]>, Op>;
+    };
+  }[Spec[F]["ops"][number]];
+}[keyof Spec & string];
+
+export interface SortNode<K extends string> {
+  by: K;
+  order: "asc" | "desc";
+}
+
+export interface ListQuery<Spec extends FilterSpec, K extends string> {
+  filters: FilterNode<Spec>[];
+  sort: SortNode<K>[];
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export type QueryInput = string | URLSearchParams | Record<string, unknown>;
+
+/* ---------------------------------------
+ * Input normalization
+ * "?filter[status][in]=a,b", { "filter[price][gte]": "100" },
+ * qs-style { filter: { status: { in: "a,b" } } } and plain
+ * "status=a" / "price[gte]=100" for declared fields all end up as
+ * { filter: { field: { op: value } } }.
+ * ------------------------------------- */
+type RawValue = string | string[];
+
+const toRecord = (input: unknown): Record<string, unknown> => {
+  if (typeof input === "string" || input instanceof URLSearchParams) {
+    const params =
+      typeof input === "string" ? new URLSearchParams(input.replace(/^\?/, "")) : input;
+    const record: Record<string, RawValue> = {};
+    params.forEach((value, key) => {
+      const existing = record[key];
+      // "in][]=a" is a list even when sent once, as with qs
+      record[key] =
+        existing === undefined
+          ? key.endsWith("[]") ? [value] : value
+          : ([] as string[]).concat(existing, value);
+    });
+    return record;
+  }
+  return input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+};
+
+const splitKey = (key: string) =>
+  key
+    .replace(/\]/g, "")
+    .split(/[[.]/)
+    .filter((segment) => segment !== "");
+
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+const normalizeQuery = (fields: string[]) => (input: unknown) => {
+  const record = toRecord(input);
+  // null-prototype bags, so "filter[__proto__][x]" cannot reach Object.prototype
+  const filter: Record<string, Record<string, unknown>> = Object.create(null);
+  const rest: Record<string, unknown> = {};
+  const addFilter = (field: string, op: string, value: unknown) => {
+    if (UNSAFE_SEGMENTS.includes(field) || UNSAFE_SEGMENTS.includes(op)) return;
+    (filter[field] = filter[field] || Object.create(null))[op] = value;
+  };
+
+  for (const [key, value] of Object.entries(record)) {
+    const [head, ...path] = splitKey(key);
+    if (UNSAFE_SEGMENTS.includes(head)) continue;
+    if (head === "filter" || head === "filters") {
+      if (path.length === 0 && value && typeof value === "object") {
+        for (const [field, ops] of Object.entries(value as object)) {
+          if (ops && typeof ops === "object" && !Array.isArray(ops)) {
+            for (const [op, v] of Object.entries(ops)) addFilter(field, op, v);
+          } else addFilter(field, "eq", ops);
+        }
+      } else if (path.length) addFilter(path[0], path[1] || "eq", value);
+    } else if (fields.includes(head)) {
+      if (path.length) addFilter(head, path[0], value);
+      else if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [op, v] of Object.entries(value)) addFilter(head, op, v);
+      } else addFilter(head, "eq", value);
+    } else {
+      rest[key] = value;
+    }
+  }
+  return { ...rest, filter };
+};
+
+/* ---------------------------------------
+ * Value coercion: query values are strings, fragments may want numbers
+ * ------------------------------------- */
+const parseQueryValue = (schema: z.ZodTypeAny, raw: unknown) => {
+  const result = schema.safeParse(raw);
+  if (result.success || typeof raw !== "string") return result;
+  const trimmed = raw.trim();
+  if (trimmed !== "" && !Number.isNaN(Number(trimmed))) {
+    const numeric = schema.safeParse(Number(trimmed));
+    if (numeric.success) return numeric;
+  }
+  if (trimmed === "true" || trimmed === "false") {
+    const bool = schema.safeParse(trimmed === "true");
+    if (bool.success) return bool;
+  }
+  return result;
+};
+
+const toList = (raw: unknown): unknown[] =>
+  (Array.isArray(raw) ? raw : [raw]).flatMap((v) =>
+    typeof v === "string" ? v.split(",") : [v]
+  );
+
+// "a,b" is split; repeated keys are taken whole, so values may contain commas
+const filterList = (raw: unknown): unknown[] => (Array.isArray(raw) ? raw : toList(raw));
+
+/* ---------------------------------------
+ * Builder
+ * ------------------------------------- */
+export interface ListQueryParamsOptions<Spec extends FilterSpec, K extends string>
+  extends PaginationDefaults {
+  filters?: Spec;
+  sortKeys?: readonly K[];
+  maxLimit?: number;
+}
+
+/**
+ * List query schema that reads URL query strings (or Express `req.query`):
+ * `?page=2&sort=-created_at,name&filter[status][in]=a,b&filter[price][gte]=100`.
+ * The returned schema also has `stringify(query)` for the reverse direction.
+ */
+export const buildListQueryParams = <
+  Spec extends FilterSpec = {},
+  K extends string = never
+>(
+  options: ListQueryParamsOptions<Spec, K> = {}
+) => {
+  const spec = (options.filters || {}) as Spec;
+  const sortKeys = (options.sortKeys || []) as readonly K[];
+
+  const schema = z
+    .preprocess(
+      normalizeQuery(Object.keys(spec)),
+      z.object({
+        filter: z.record(z.record(z.unknown())),
+        sort: z.union([z.string(), z.array(z.string())]).optional(),
+        search: z.string().optional(),
+        ...buildPagination(options.maxLimit, options).shape,
+      })
+    )
+    .transform((raw, ctx): ListQuery<Spec, K> => {
+      const filters: { field: string; op: string; value: unknown }[] = [];
+
+      for (const [field, ops] of Object.entries(raw.filter)) {
+        const fieldSpec = spec[field];
+        const label = fieldSpec?.label || field;
+        if (!fieldSpec) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["filter", field],
+            message: translate("filterField", { label }),
+            params: { code: "filter.field" },
+          });
+          continue;
+        }
+        for (const [op, rawValue] of Object.entries(ops)) {
+          const path = ["filter", field, op];
+          if (!(fieldSpec.ops as readonly string[]).includes(op)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path,
+              message: translate("filterOperator", { label, op, options: fieldSpec.ops }),
+              params: { code: "filter.operator" },
+            });
+            continue;
+          }
+          const list = op === "in" || op === "nin" || op === "between";
+          const rawValues = list ? filterList(rawValue) : [rawValue];
+          if (op === "between" && rawValues.length !== 2) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path,
+              message: translate("between", { label }),
+              params: { code: "filter.between" },
+            });
+            continue;
+          }
+          const values: unknown[] = [];
+          rawValues.forEach((v, i) => {
+            const result = parseQueryValue(fieldSpec.schema, v);
+            if (result.success) values.push(result.data);
+            else
+              result.error.issues.forEach((issue) =>
+                ctx.addIssue({ ...issue, path: list ? [...path, i] : path })
+              );
+          });
+          if (values.length === rawValues.length)
+            filters.push({ field, op, value: list ? values : values[0] });
+        }
+      }
+
+      const sort: SortNode<K>[] = [];
+      for (const token of toList(raw.sort ?? []) as string[]) {
+        const trimmed = token.trim();
+        if (!trimmed) continue;
+        const by = trimmed.replace(/^[-+]/, "") as K;
+        if (!sortKeys.includes(by) || sort.some((s) => s.by === by)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["sort"],
+            message: translate("enum", { label: "Sort", options: sortKeys }),
+            params: { code: "sort.field" },
+          });
+          continue;
+        }
+        sort.push({ by, order: trimmed.startsWith("-") ? "desc" : "asc" });
+      }
+
+      return {
+        filters: filters as FilterNode<Spec>[],
+        sort,
+        ...(raw.search !== undefined ? { search: raw.search } : {}),
+        page: raw.page,
+        limit: raw.limit,
+      };
+    });
+
+  withMeta(schema, {
+    kind: "listQueryParams",
+    constraints: { filters: spec, sortKeys, maxLimit: options.maxLimit ?? 200 },
+  });
+  return Object.assign(schema, {
+    stringify: (query: Partial<ListQuery<Spec, K>>) => stringifyListQuery(query),
+  });
+};
+
+/* ---------------------------------------
+ * Serialization
+ * ------------------------------------- */
+const formatQueryValue = (value: unknown) =>
+  encodeURIComponent(value instanceof Date ? value.toISOString() : String(value));
+
+/**
+ * Inverse of `buildListQueryParams`: typed query -> "page=2&sort=-a&filter[x][in]=1,2".
+ * List values containing a comma are sent as "filter[x][in][]=a&filter[x][in][]=b".
+ */
+export const stringifyListQuery = (query: {
+  filters?: { field: string; op: string; value: unknown }[];
+  sort?: { by: string; order: "asc" | "desc" }[];
+  search?: string;
+  page?: number;
+  limit?: number;
+}): string => {
+  const parts: string[] = [];
+  if (query.page !== undefined) parts.push(`page=${query.page}`);
+  if (query.limit !== undefined) parts.push(`limit=${query.limit}`);
+  if (query.sort?.length)
+    parts.push(
+      `sort=${query.sort
+        .map((s) => `${s.order === "desc" ? "-" : ""}${encodeURIComponent(s.by)}`)
+        .join(",")}`
+    );
+  for (const { field, op, value } of query.filters || []) {
+    const key = `filter[${encodeURIComponent(field)}][${op}]`;
+    if (!Array.isArray(value)) parts.push(`${key}=${formatQueryValue(value)}`);
+    // values with commas go as repeated "[]" keys, which aren't split
+    else if (value.some((item) => String(item).includes(",")))
+      parts.push(...value.map((item) => `${key}[]=${formatQueryValue(item)}`));
+    else parts.push(`${key}=${value.map(formatQueryValue).join(",")}`);
+  }
+  if (query.search !== undefined) parts.push(`search=${formatQueryValue(query.search)}`);
+  return parts.join("&");
+};
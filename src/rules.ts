@@ -0,0 +1,258 @@
+// src/rules.ts
+import { z } from "zod";
+import { CustomMessages } from "./index";
+import { MessageKey, translate } from "./i18n";
+import { findMeta, unwrapSchema, withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Cross-field rules for object schemas
+ * `withRules(schema, matches("confirm", "password"), requiredIf(...))`
+ * Field names are checked against the schema's output type and
+ * issues land on the field they are about, labelled like fragments.
+ * ------------------------------------- */
+
+// keeps a type parameter out of inference so it comes from `withRules`
+type Deferred<T> = [T][T extends unknown ? 0 : never];
+
+type Field<T> = keyof T & string;
+
+export interface RuleContext {
+  ctx: z.RefinementCtx;
+  /** Fragment label of a field, or the field name */
+  label: (field: string) => string;
+}
+
+export interface ObjectRule<T> {
+  rule: string;
+  fields: string[];
+  check: (value: T, context: RuleContext) => void;
+}
+
+/** Field -> expected value(s), or a predicate over the whole object */
+export type RuleCondition<T> =
+  | ((value: T) => boolean)
+  | { [K in keyof T]?: T[K] | readonly T[K][] };
+
+export type CompareOperator = "lt" | "lte" | "gt" | "gte" | "eq" | "ne";
+
+const toMessages = (msg?: CustomMessages | string): CustomMessages =>
+  typeof msg === "string"
+    ? { required: msg, invalid: msg, validation: msg }
+    : msg || {};
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+const holds = <T>(condition: RuleCondition<T>, value: T) =>
+  typeof condition === "function"
+    ? condition(value)
+    : Object.entries(condition).every(([key, expected]) => {
+        const actual = (value as Record<string, unknown>)[key];
+        return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+      });
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+const sameValue = (a: unknown, b: unknown) =>
+  comparable(a) === comparable(b) ||
+  (typeof a === "object" && a !== null && JSON.stringify(a) === JSON.stringify(b));
+
+const report = (ctx: z.RefinementCtx, field: string, code: string, message: string) =>
+  ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message, params: { code } });
+
+/* ---------------------------------------
+ * Rules
+ * ------------------------------------- */
+
+/** `field` must equal `other` (confirm password / email) */
+export const matches = <T>(
+  field: Field<T>,
+  other: Field<Deferred<T>>,
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "matches",
+  fields: [field, other],
+  check: (value, { ctx, label }) => {
+    const v = value as Record<string, unknown>;
+    if (!sameValue(v[field], v[other]))
+      report(
+        ctx,
+        field,
+        "rules.matches",
+        toMessages(msg).validation ||
+          translate("fieldMatch", { label: label(field), other: label(other) })
+      );
+  },
+});
+
+/** `field` is required while `condition` holds, e.g. `requiredIf("gstin", { type: "company" })` */
+export const requiredIf = <T>(
+  field: Field<T>,
+  condition: RuleCondition<Deferred<T>>,
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "requiredIf",
+  fields: [field],
+  check: (value, { ctx, label }) => {
+    if (holds(condition, value) && isEmpty((value as Record<string, unknown>)[field]))
+      report(
+        ctx,
+        field,
+        "rules.required_if",
+        toMessages(msg).required || translate("required", { label: label(field) })
+      );
+  },
+});
+
+/** `field` is required unless `condition` holds */
+export const requiredUnless = <T>(
+  field: Field<T>,
+  condition: RuleCondition<Deferred<T>>,
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "requiredUnless",
+  fields: [field],
+  check: (value, { ctx, label }) => {
+    if (!holds(condition, value) && isEmpty((value as Record<string, unknown>)[field]))
+      report(
+        ctx,
+        field,
+        "rules.required_unless",
+        toMessages(msg).required || translate("required", { label: label(field) })
+      );
+  },
+});
+
+/** At least one of `fields` must be filled; the issue goes on the first one */
+export const atLeastOneOf = <T>(
+  fields: readonly Field<T>[],
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "atLeastOneOf",
+  fields: [...fields],
+  check: (value, { ctx, label }) => {
+    const v = value as Record<string, unknown>;
+    if (fields.every((field) => isEmpty(v[field])))
+      report(
+        ctx,
+        fields[0],
+        "rules.at_least_one",
+        toMessages(msg).required || translate("atLeastOne", { options: fields.map(label) })
+      );
+  },
+});
+
+/** At most one of `fields` may be filled; every extra one gets an issue */
+export const mutuallyExclusive = <T>(
+  fields: readonly Field<T>[],
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "mutuallyExclusive",
+  fields: [...fields],
+  check: (value, { ctx, label }) => {
+    const v = value as Record<string, unknown>;
+    const [first, ...rest] = fields.filter((field) => !isEmpty(v[field]));
+    for (const field of rest)
+      report(
+        ctx,
+        field,
+        "rules.exclusive",
+        toMessages(msg).validation ||
+          translate("exclusive", { label: label(field), other: label(first) })
+      );
+  },
+});
+
+const COMPARE_MESSAGES: Record<CompareOperator, MessageKey> = {
+  lt: "fieldLess",
+  lte: "fieldLessOrEqual",
+  gt: "fieldGreater",
+  gte: "fieldGreaterOrEqual",
+  eq: "fieldMatch",
+  ne: "fieldDiffers",
+};
+
+// values come through `comparable`: numbers, strings, or Dates as epochs
+const compare = (a: unknown, op: CompareOperator, b: unknown) => {
+  const [x, y] = [a, b] as (number | string)[];
+  switch (op) {
+    case "lt":
+      return x < y;
+    case "lte":
+      return x <= y;
+    case "gt":
+      return x > y;
+    case "gte":
+      return x >= y;
+    case "eq":
+      return x === y;
+    case "ne":
+      return x !== y;
+  }
+};
+
+/**
+ * `field <op> other` for numbers, strings or Dates, e.g.
+ * `compareFields("end", "gte", "start")`. Skipped while either side is empty.
+ */
+export const compareFields = <T>(
+  field: Field<T>,
+  op: CompareOperator,
+  other: Field<Deferred<T>>,
+  msg?: CustomMessages | string
+): ObjectRule<T> => ({
+  rule: "compareFields",
+  fields: [field, other],
+  check: (value, { ctx, label }) => {
+    const v = value as Record<string, unknown>;
+    if (isEmpty(v[field]) || isEmpty(v[other])) return;
+    if (!compare(comparable(v[field]), op, comparable(v[other])))
+      report(
+        ctx,
+        field,
+        `rules.compare.${op}`,
+        toMessages(msg).validation ||
+          translate(COMPARE_MESSAGES[op], { label: label(field), other: label(other) })
+      );
+  },
+});
+
+/* ---------------------------------------
+ * Apply
+ * ------------------------------------- */
+
+// kept on the _def like fragment metadata, so copies of the schema keep them
+const RULES_KEY = "zodFragmentRules";
+
+/** Attach cross-field rules to an object schema (or one already refined) */
+export const withRules = <S extends z.ZodTypeAny>(
+  schema: S,
+  ...rules: ObjectRule<z.output<S>>[]
+): z.ZodEffects<S, z.output<S>, z.input<S>> => {
+  const base = unwrapSchema(schema);
+  const shape: z.ZodRawShape = base instanceof z.ZodObject ? base.shape : {};
+  const label = (field: string) => (shape[field] && findMeta(shape[field])?.label) || field;
+
+  const refined = schema.superRefine((value: z.output<S>, ctx) => {
+    for (const rule of rules) rule.check(value, { ctx, label });
+  });
+  ((refined as z.ZodTypeAny)._def as Record<string, unknown>)[RULES_KEY] = rules;
+  return withMeta(refined, {
+    kind: "withRules",
+    constraints: { rules: rules.map(({ rule, fields }) => ({ rule, fields })) },
+  });
+};
+
+/** Rules attached with `withRules`, including ones under `.optional()` or later refines */
+export const findRules = (schema: z.ZodTypeAny): ObjectRule<unknown>[] => {
+  const rules: ObjectRule<unknown>[] = [];
+  for (let current: z.ZodTypeAny | undefined = schema; current; ) {
+    const def = current._def as Record<string, unknown>;
+    rules.push(...((def[RULES_KEY] as ObjectRule<unknown>[] | undefined) ?? []));
+    current = (current instanceof z.ZodEffects ? def.schema : def.innerType) as z.ZodTypeAny | undefined;
+  }
+  return rules;
+};
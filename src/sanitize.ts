@@ -0,0 +1,448 @@
+// src/sanitize.ts
+import { z } from "zod";
+import { CustomMessages } from "./index";
+import { translate, fragmentErrorMap } from "./i18n";
+import { withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Text & HTML sanitization (no DOM, runs in Node)
+ * Plain text: tags stripped, invisible/control characters removed,
+ * NFC, whitespace collapsed. HTML: allowlisted tags and attributes,
+ * URLs checked against allowed schemes. Lengths count graphemes.
+ * ------------------------------------- */
+
+/* ---------------------------------------
+ * Graphemes
+ * ------------------------------------- */
+interface GraphemeSegmenter {
+  segment: (input: string) => Iterable<unknown>;
+}
+
+// Intl.Segmenter is missing from the ES2019 lib typings
+const Segmenter = (
+  Intl as unknown as {
+    Segmenter?: new (locale?: string, options?: { granularity: "grapheme" }) => GraphemeSegmenter;
+  }
+).Segmenter;
+
+const segmenter = Segmenter ? new Segmenter(undefined, { granularity: "grapheme" }) : undefined;
+
+// approximation for runtimes without Intl.Segmenter: marks, ZWJ sequences,
+// skin tones, tag sequences and flag pairs stay with their base character
+const GRAPHEME =
+  /\r\n|\p{Regional_Indicator}{2}|[\s\S](?:\p{M}|\u200D[\s\S]|[\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}])*/gu;
+
+/** User-perceived characters: "👍🏽" and "e\u0301" (é) count as 1, not 4 and 2 */
+export const graphemeLength = (input: string): number => {
+  if (segmenter) {
+    let count = 0;
+    for (const _ of segmenter.segment(input)) count++;
+    return count;
+  }
+  return input.match(GRAPHEME)?.length ?? 0;
+};
+
+/* ---------------------------------------
+ * Entities
+ * ------------------------------------- */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00A0",
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+};
+
+/** Numeric and the common named entities; unknown ones are left as written */
+export const decodeEntities = (input: string) =>
+  input.replace(/&(#\d+|#x[\da-f]+|[a-z]+);?/gi, (match, body: string) => {
+    if (body[0] !== "#") return NAMED_ENTITIES[body.toLowerCase()] ?? match;
+    const code = body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : Number(body.slice(1));
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "\uFFFD";
+  });
+
+const ENTITY_AMP = /&(?!#\d+;|#x[\da-f]+;|[a-z][a-z\d]*;)/gi;
+
+const escapeText = (text: string) =>
+  text.replace(ENTITY_AMP, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (value: string) => escapeText(value).replace(/"/g, "&quot;");
+
+/* ---------------------------------------
+ * Plain text
+ * ------------------------------------- */
+const CONTROL = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g;
+
+// zero-width space, word joiner, BOM, soft hyphen, Mongolian vowel separator, bidi controls
+const INVISIBLE = /[\u00AD\u180E\u200B\u200E\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF\u061C]/g;
+
+// ZWJ / ZWNJ are kept where they join something: Indic conjuncts, Arabic script, emoji sequences
+const STRAY_JOINER =
+  /(?<![\p{M}\p{Extended_Pictographic}\p{Script=Arabic}])[\u200C\u200D]|[\u200C\u200D](?![\p{L}\p{M}\p{Extended_Pictographic}])/gu;
+
+const DROP_WITH_CONTENT = [
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "noscript",
+  "noembed",
+  "noframes",
+  "template",
+  "textarea",
+  "title",
+  "xmp",
+  "svg",
+  "math",
+];
+
+const BLOCK_TAGS =
+  /^(?:address|article|aside|blockquote|br|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|td|th|tr|ul)$/i;
+
+const RAW_CONTENT = new RegExp(
+  `<(${DROP_WITH_CONTENT.join("|")})\\b[^>]*>[\\s\\S]*?(?:<\\/\\1\\s*>|$)`,
+  "gi"
+);
+
+const stripTags = (input: string) =>
+  input
+    .replace(RAW_CONTENT, " ")
+    .replace(/<!--[\s\S]*?(?:-->|$)|<[!?][^>]*>/g, "")
+    .replace(/<\/?([a-z][a-z\d:-]*)\b[^>]*>/gi, (_, name: string) =>
+      BLOCK_TAGS.test(name) ? "\n" : ""
+    );
+
+/** Remove control, zero-width and bidi characters; the tab/newline handling is left to the caller */
+export const removeInvisible = (input: string) =>
+  input.replace(CONTROL, "").replace(INVISIBLE, "").replace(STRAY_JOINER, "");
+
+export interface PlainTextOptions {
+  /** Keep line breaks (at most one blank line in a row) instead of joining lines */
+  multiline?: boolean;
+}
+
+/**
+ * Tags and markup removed (script/style content included), entities decoded,
+ * invisible characters removed, NFC applied and whitespace collapsed.
+ */
+export const sanitizeText = (input: string, options: PlainTextOptions = {}) => {
+  // encoded markup ("&lt;b&gt;") is markup too
+  const text = removeInvisible(stripTags(decodeEntities(stripTags(input)))).normalize("NFC");
+  if (!options.multiline) return text.replace(/\s+/g, " ").trim();
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+/* ---------------------------------------
+ * Safe HTML
+ * ------------------------------------- */
+export interface SafeHtmlOptions {
+  allowedTags?: readonly string[];
+  /** Attributes per tag; "*" applies to every allowed tag. `on*` handlers are never kept */
+  allowedAttributes?: Readonly<Record<string, readonly string[]>>;
+  /** Schemes accepted in href/src-like attributes; relative URLs are always fine */
+  allowedSchemes?: readonly string[];
+}
+
+export const DEFAULT_HTML_TAGS = [
+  "p",
+  "br",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "u",
+  "s",
+  "a",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "code",
+  "pre",
+  "h2",
+  "h3",
+  "h4",
+];
+
+export const DEFAULT_HTML_ATTRIBUTES: Readonly<Record<string, readonly string[]>> = {
+  a: ["href", "title"],
+};
+
+export const DEFAULT_URL_SCHEMES = ["http", "https", "mailto", "tel"];
+
+export interface SanitizedHtml {
+  html: string;
+  /** Disallowed tags that were dropped (their text is kept unless it's script-like) */
+  removedTags: string[];
+  /** URLs whose scheme isn't allowed; their attributes were dropped */
+  unsafeUrls: string[];
+}
+
+const VOID_TAGS = ["area", "br", "col", "hr", "img", "source", "wbr"];
+
+const URL_ATTRIBUTES = [
+  "href",
+  "src",
+  "cite",
+  "action",
+  "formaction",
+  "poster",
+  "background",
+  "xlink:href",
+];
+
+const TAG =
+  /<(\/?)([a-z][a-z\d:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/iy;
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const isAllowedUrl = (value: string, schemes: readonly string[]) => {
+  // "jav&#x09;ascript:" and " javascript:" are still javascript:
+  const url = decodeEntities(value).replace(/[\u0000-\u0020\u007F-\u009F]/g, "");
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url);
+  return !scheme || schemes.includes(scheme[1].toLowerCase());
+};
+
+/**
+ * Keep allowlisted tags and attributes, escape everything else as text.
+ * Malformed tags are escaped, unclosed ones closed, stray end tags dropped.
+ */
+export const sanitizeHtml = (input: string, options: SafeHtmlOptions = {}): SanitizedHtml => {
+  const allowedTags = (options.allowedTags ?? DEFAULT_HTML_TAGS)
+    .map((tag) => tag.toLowerCase())
+    .filter((tag) => tag !== "script");
+  const allowedAttributes = options.allowedAttributes ?? DEFAULT_HTML_ATTRIBUTES;
+  const schemes = (options.allowedSchemes ?? DEFAULT_URL_SCHEMES).map((s) => s.toLowerCase());
+  const attributesFor = (tag: string) =>
+    [...(allowedAttributes[tag] ?? []), ...(allowedAttributes["*"] ?? [])].map((a) => a.toLowerCase());
+
+  const out: string[] = [];
+  const open: string[] = [];
+  const removedTags: string[] = [];
+  const unsafeUrls: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const lt = input.indexOf("<", i);
+    if (lt === -1) {
+      out.push(escapeText(input.slice(i)));
+      break;
+    }
+    out.push(escapeText(input.slice(i, lt)));
+
+    if (input.startsWith("<!--", lt)) {
+      const end = input.indexOf("-->", lt + 4);
+      i = end === -1 ? input.length : end + 3;
+      continue;
+    }
+    if (input[lt + 1] === "!" || input[lt + 1] === "?") {
+      const end = input.indexOf(">", lt);
+      i = end === -1 ? input.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = lt;
+    const match = TAG.exec(input);
+    if (!match) {
+      out.push("&lt;");
+      i = lt + 1;
+      continue;
+    }
+    i = TAG.lastIndex;
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    const name = rawName.toLowerCase();
+
+    if (!allowedTags.includes(name)) {
+      if (!closing) removedTags.push(name);
+      if (!closing && !selfClosing && DROP_WITH_CONTENT.includes(name)) {
+        const end = new RegExp(`</${name}\\s*>`, "ig");
+        end.lastIndex = i;
+        i = end.exec(input) ? end.lastIndex : input.length;
+      }
+      continue;
+    }
+
+    if (closing) {
+      const index = open.lastIndexOf(name);
+      if (index !== -1) out.push(...open.splice(index).reverse().map((tag) => `</${tag}>`));
+      continue;
+    }
+
+    const allowed = attributesFor(name);
+    const seen = new Set<string>();
+    let attributes = "";
+    ATTRIBUTE.lastIndex = 0;
+    let parsed: RegExpExecArray | null;
+    while ((parsed = ATTRIBUTE.exec(rawAttributes))) {
+      const [, rawAttribute, double, single, bare] = parsed;
+      const attribute = rawAttribute.toLowerCase();
+      if (attribute.startsWith("on") || !allowed.includes(attribute) || seen.has(attribute)) continue;
+      seen.add(attribute);
+      const value = double ?? single ?? bare ?? "";
+      if (URL_ATTRIBUTES.includes(attribute) && !isAllowedUrl(value, schemes)) {
+        unsafeUrls.push(value);
+        continue;
+      }
+      attributes += ` ${attribute}="${escapeAttribute(value)}"`;
+    }
+    out.push(`<${name}${attributes}>`);
+    if (!VOID_TAGS.includes(name)) open.push(name);
+  }
+
+  out.push(...open.reverse().map((tag) => `</${tag}>`));
+  return { html: out.join(""), removedTags, unsafeUrls };
+};
+
+/* ---------------------------------------
+ * Fragments
+ * ------------------------------------- */
+export interface TextLengthOptions {
+  /** Counted in graphemes after sanitizing (visible text for HTML) */
+  minLength?: number;
+  maxLength?: number;
+}
+
+const toMessages = (msg?: CustomMessages | string): CustomMessages =>
+  typeof msg === "string"
+    ? { required: msg, invalid: msg, validation: msg }
+    : msg || {};
+
+const failWith = (ctx: z.RefinementCtx, code: string, message: string) => {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { code } });
+  return z.NEVER;
+};
+
+const sanitizedString = <R extends boolean>(
+  kind: string,
+  label: string,
+  msg: CustomMessages | string | undefined,
+  options: TextLengthOptions,
+  required: R,
+  sanitize: (raw: string, fail: (code: string, message: string) => never) => {
+    value: string;
+    text: string;
+  },
+  extra: Record<string, unknown>
+) => {
+  type Out = R extends true ? string : string | undefined;
+  const messages = toMessages(msg);
+  const { minLength, maxLength } = options;
+  const schema = z
+    .string({
+      errorMap: fragmentErrorMap({
+        required: () => messages.required || translate("required", { label }),
+        invalid: () => messages.invalid || translate("string", { label }),
+      }),
+    })
+    .transform((raw, ctx): Out => {
+      const fail = (code: string, message: string) => failWith(ctx, code, message);
+      const { value, text } = sanitize(raw, fail);
+      if (!text) {
+        if (!required) return undefined as Out;
+        return fail("required", messages.required || translate("required", { label }));
+      }
+      const length = graphemeLength(text);
+      if (minLength !== undefined && length < minLength)
+        return fail("string.min", messages.validation || translate("minLength", { label, min: minLength }));
+      if (maxLength !== undefined && length > maxLength)
+        return fail("string.max", messages.validation || translate("maxLength", { label, max: maxLength }));
+      return value as Out;
+    });
+  return withMeta(required ? schema : schema.optional(), {
+    kind,
+    label,
+    messages: msg,
+    constraints: { minLength, maxLength, ...extra },
+    normalize: ["stripTags", "removeInvisible", "nfc", "collapseWhitespace"],
+  });
+};
+
+const textSanitizer = (options: PlainTextOptions) => (raw: string) => {
+  const text = sanitizeText(raw, options);
+  return { value: text, text };
+};
+
+/** Plain text: tags, control and zero-width characters removed, NFC, whitespace collapsed */
+export const plainText = (
+  label = "This field",
+  msg?: CustomMessages | string,
+  options: PlainTextOptions & TextLengthOptions = {}
+) =>
+  sanitizedString("plainText", label, msg, options, true, textSanitizer(options), {
+    multiline: !!options.multiline,
+  });
+
+/** Like `plainText`; blank (or markup-only) input becomes `undefined` */
+export const optionalPlainText = (
+  label = "This field",
+  msg?: CustomMessages | string,
+  options: PlainTextOptions & TextLengthOptions = {}
+) =>
+  sanitizedString("optionalPlainText", label, msg, options, false, textSanitizer(options), {
+    multiline: !!options.multiline,
+  });
+
+const htmlSanitizer =
+  (label: string, msg: CustomMessages | string | undefined, options: SafeHtmlOptions) =>
+  (raw: string, fail: (code: string, message: string) => never) => {
+    const { html, removedTags, unsafeUrls } = sanitizeHtml(raw, options);
+    if (unsafeUrls.length)
+      fail("html.unsafe_url", toMessages(msg).validation || translate("unsafeUrl", { label }));
+    const text = sanitizeText(html);
+    // "<script>…</script>" is not a blank field: nothing allowed was left of it
+    if (!text && removedTags.length)
+      fail("html.disallowed_tag", toMessages(msg).validation || translate("disallowedTags", { label }));
+    return { value: html.trim(), text };
+  };
+
+const htmlConstraints = (options: SafeHtmlOptions) => ({
+  allowedTags: options.allowedTags ?? DEFAULT_HTML_TAGS,
+  allowedAttributes: options.allowedAttributes ?? DEFAULT_HTML_ATTRIBUTES,
+  allowedSchemes: options.allowedSchemes ?? DEFAULT_URL_SCHEMES,
+});
+
+/**
+ * Rich text reduced to allowlisted tags/attributes. Links with a scheme
+ * outside `allowedSchemes` (e.g. `javascript:`) fail validation.
+ */
+export const safeHtml = (
+  label = "This field",
+  msg?: CustomMessages | string,
+  options: SafeHtmlOptions & TextLengthOptions = {}
+) =>
+  sanitizedString(
+    "safeHtml",
+    label,
+    msg,
+    options,
+    true,
+    htmlSanitizer(label, msg, options),
+    htmlConstraints(options)
+  );
+
+/** Like `safeHtml`; empty markup ("<p></p>") becomes `undefined` */
+export const optionalSafeHtml = (
+  label = "This field",
+  msg?: CustomMessages | string,
+  options: SafeHtmlOptions & TextLengthOptions = {}
+) =>
+  sanitizedString(
+    "optionalSafeHtml",
+    label,
+    msg,
+    options,
+    false,
+    htmlSanitizer(label, msg, options),
+    htmlConstraints(options)
+  );
@@ -0,0 +1,455 @@
+// src/upload.ts
+import { z } from "zod";
+import { CustomMessages } from "./index";
+import { MessageKey, MessageParams, fragmentErrorMap, translate } from "./i18n";
+import { withMeta } from "./meta";
+
+/* ---------------------------------------
+ * Uploaded files
+ * `file(options)` and `image(options)` validate a `File`/`Blob`, a
+ * Buffer / Uint8Array or a multer-style descriptor. The declared MIME
+ * type and extension are checked against the file's magic bytes and
+ * image dimensions come from the headers. `File`/`Blob` contents are
+ * read asynchronously: use parseAsync for them.
+ * ------------------------------------- */
+
+// Loaded on first use so browser bundles can stub out "fs"
+const nodeFs = (): typeof import("fs") => require("fs");
+
+/** Multer-style descriptor (memory storage has `buffer`, disk storage `path`) */
+export interface FileDescriptor {
+  originalname?: string;
+  mimetype?: string;
+  size?: number;
+  buffer?: Uint8Array;
+  path?: string;
+}
+
+export type FileInput = Blob | Uint8Array | FileDescriptor;
+
+export interface FileOptions {
+  label?: string;
+  /** `required` / `invalid` only; rule messages come from the locale catalog */
+  messages?: CustomMessages | string;
+  /** Bytes */
+  maxSize?: number;
+  /** e.g. ["image/png", "application/pdf"] or "image/*" */
+  mimeTypes?: readonly string[];
+  /** Without the dot, e.g. ["png", "jpg"] */
+  extensions?: readonly string[];
+  /**
+   * Accept descriptors with only a `path` (multer disk storage) and read it.
+   * Off by default: a `path` sent in a JSON body would be opened as given.
+   */
+  allowDiskPath?: boolean;
+}
+
+export interface ImageOptions extends FileOptions {
+  /** Pixels */
+  maxWidth?: number;
+  maxHeight?: number;
+  /** `16 / 9` or "16:9" */
+  aspectRatio?: number | string;
+  /** Allowed relative difference from `aspectRatio` (default 0.01) */
+  aspectRatioTolerance?: number;
+}
+
+export interface FileArrayOptions {
+  label?: string;
+  messages?: CustomMessages | string;
+  minCount?: number;
+  maxCount?: number;
+  /** Bytes, summed over all files */
+  maxTotalSize?: number;
+}
+
+export interface SniffedFile {
+  mimeType: string;
+  /** Extensions used for this type, the usual one first */
+  extensions: readonly string[];
+  width?: number;
+  height?: number;
+}
+
+const toMessages = (msg?: CustomMessages | string): CustomMessages =>
+  typeof msg === "string"
+    ? { required: msg, invalid: msg, validation: msg }
+    : msg || {};
+
+/* ---------------------------------------
+ * Magic bytes and image headers
+ * ------------------------------------- */
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+const u16be = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const u16le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+const u24le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16);
+const u32be = (b: Uint8Array, i: number) => b[i] * 2 ** 24 + ((b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]);
+
+type Size = { width: number; height: number } | undefined;
+
+// walks the segments up to the first start-of-frame marker (SOF0-SOF15, minus DHT/JPG/DAC)
+const jpegSize = (b: Uint8Array): Size => {
+  let i = 2;
+  while (i + 9 <= b.length) {
+    if (b[i] !== 0xff) return undefined;
+    const marker = b[i + 1];
+    if (marker === 0xff) {
+      i += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      i += 2;
+      continue;
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc)
+      return { height: u16be(b, i + 5), width: u16be(b, i + 7) };
+    i += 2 + u16be(b, i + 2);
+  }
+  return undefined;
+};
+
+const webpSize = (b: Uint8Array): Size => {
+  if (b.length < 30) return undefined;
+  switch (ascii(b, 12, 16)) {
+    case "VP8 ":
+      return { width: u16le(b, 26) & 0x3fff, height: u16le(b, 28) & 0x3fff };
+    case "VP8L":
+      return {
+        width: 1 + (((b[22] & 0x3f) << 8) | b[21]),
+        height: 1 + (((b[24] & 0x0f) << 10) | (b[23] << 2) | ((b[22] & 0xc0) >> 6)),
+      };
+    case "VP8X":
+      return { width: 1 + u24le(b, 24), height: 1 + u24le(b, 27) };
+    default:
+      return undefined;
+  }
+};
+
+const FORMATS: {
+  mimeType: string;
+  extensions: readonly string[];
+  test: (b: Uint8Array) => boolean;
+  size?: (b: Uint8Array) => Size;
+}[] = [
+  {
+    mimeType: "image/png",
+    extensions: ["png"],
+    test: (b) => ascii(b, 0, 8) === "\x89PNG\r\n\x1a\n",
+    size: (b) =>
+      b.length >= 24 && ascii(b, 12, 16) === "IHDR" ? { width: u32be(b, 16), height: u32be(b, 20) } : undefined,
+  },
+  {
+    mimeType: "image/jpeg",
+    extensions: ["jpg", "jpeg", "jpe", "jfif"],
+    test: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+    size: jpegSize,
+  },
+  {
+    mimeType: "image/gif",
+    extensions: ["gif"],
+    test: (b) => /^GIF8[79]a$/.test(ascii(b, 0, 6)),
+    size: (b) => (b.length >= 10 ? { width: u16le(b, 6), height: u16le(b, 8) } : undefined),
+  },
+  {
+    mimeType: "image/webp",
+    extensions: ["webp"],
+    test: (b) => ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP",
+    size: webpSize,
+  },
+  {
+    mimeType: "application/pdf",
+    extensions: ["pdf"],
+    test: (b) => ascii(b, 0, 5) === "%PDF-",
+  },
+];
+
+const SNIFFABLE = FORMATS.map((format) => format.mimeType);
+
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"] as const;
+
+/** Detect PNG, JPEG, WebP, GIF and PDF from the first bytes, with image dimensions */
+export const sniffFile = (bytes: Uint8Array): SniffedFile | undefined => {
+  const format = FORMATS.find((candidate) => candidate.test(bytes));
+  if (!format) return undefined;
+  const size = format.size?.(bytes);
+  return { mimeType: format.mimeType, extensions: format.extensions, ...size };
+};
+
+/* ---------------------------------------
+ * Reading inputs
+ * ------------------------------------- */
+
+interface FileHead {
+  name?: string;
+  type?: string;
+  size: number;
+  bytes?: Uint8Array;
+}
+
+// enough for the JPEG start-of-frame after a large EXIF block
+const HEAD_BYTES = 128 * 1024;
+
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+};
+
+const normalizeType = (type: string) => {
+  const lower = type.split(";")[0].trim().toLowerCase();
+  return MIME_ALIASES[lower] ?? lower;
+};
+
+const isBlob = (value: unknown): value is Blob => typeof Blob !== "undefined" && value instanceof Blob;
+
+const isDescriptor = (value: unknown): value is FileDescriptor => {
+  if (typeof value !== "object" || value === null) return false;
+  const { buffer, path } = value as Record<string, unknown>;
+  // a JSON body can mimic the keys but not a real buffer
+  if (buffer !== undefined && !(buffer instanceof Uint8Array)) return false;
+  if (path !== undefined && typeof path !== "string") return false;
+  return (
+    (buffer !== undefined || path !== undefined) &&
+    ("originalname" in value || "mimetype" in value || "size" in value)
+  );
+};
+
+const isDiskDescriptor = (value: FileInput) => isDescriptor(value) && !value.buffer;
+
+export const isFileInput = (value: unknown): value is FileInput =>
+  isBlob(value) || value instanceof Uint8Array || isDescriptor(value);
+
+/** Size in bytes, without reading the contents; a loaded buffer wins over the declared `size` */
+export const fileSize = (value: FileInput): number =>
+  isBlob(value)
+    ? value.size
+    : value instanceof Uint8Array
+      ? value.length
+      : (value.buffer?.length ?? value.size ?? 0);
+
+const readDiskHead = (path: string): Uint8Array | undefined => {
+  try {
+    const fs = nodeFs();
+    // FIFOs and devices would block the event loop
+    if (!fs.statSync(path).isFile()) return undefined;
+    const fd = fs.openSync(path, "r");
+    try {
+      const buffer = Buffer.alloc(HEAD_BYTES);
+      return buffer.subarray(0, fs.readSync(fd, buffer, 0, HEAD_BYTES, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+};
+
+const readHead = (value: FileInput): FileHead | Promise<FileHead> => {
+  if (isBlob(value))
+    return value
+      .slice(0, HEAD_BYTES)
+      .arrayBuffer()
+      .then((buffer) => ({
+        name: (value as File).name || undefined,
+        type: value.type || undefined,
+        size: value.size,
+        bytes: new Uint8Array(buffer),
+      }));
+  if (value instanceof Uint8Array) return { size: value.length, bytes: value };
+  return {
+    name: value.originalname,
+    type: value.mimetype,
+    size: fileSize(value),
+    bytes: value.buffer ?? (value.path ? readDiskHead(value.path) : undefined),
+  };
+};
+
+/* ---------------------------------------
+ * Checks
+ * ------------------------------------- */
+
+const matchesType = (type: string, patterns: readonly string[]) =>
+  patterns.some((pattern) => {
+    const normalized = normalizeType(pattern);
+    return normalized.endsWith("/*")
+      ? type.startsWith(normalized.slice(0, -1))
+      : type === normalized;
+  });
+
+/** 5242880 -> "5 MB" */
+export const formatFileSize = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${Math.round(value * 10) / 10} ${units[unit]}`;
+};
+
+const parseRatio = (ratio: number | string) => {
+  const [w, h] = typeof ratio === "number" ? [ratio, 1] : ratio.split(/[:/x]/).map(Number);
+  const parsed = w / h;
+  if (!(parsed > 0) || !Number.isFinite(parsed)) throw new RangeError(`Invalid aspectRatio: ${ratio}`);
+  return parsed;
+};
+
+const checkFile = (head: FileHead, options: ImageOptions, ctx: z.RefinementCtx, isImage: boolean) => {
+  const label = options.label ?? (isImage ? "Image" : "File");
+  const report = (code: string, key: MessageKey, params: MessageParams = {}) =>
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: translate(key, { label, ...params }),
+      params: { code },
+    });
+
+  if (head.size === 0) return report("file.empty", "fileEmpty");
+  if (options.maxSize !== undefined && head.size > options.maxSize)
+    report("file.size", "fileSize", { max: formatFileSize(options.maxSize) });
+
+  const dot = head.name?.lastIndexOf(".") ?? -1;
+  const extension = head.name && dot > 0 ? head.name.slice(dot + 1).toLowerCase() : undefined;
+  if (options.extensions && !options.extensions.some((allowed) => allowed.toLowerCase() === extension))
+    report("file.extension", "fileExtension", { options: options.extensions });
+
+  const mimeTypes = options.mimeTypes;
+  const declared = head.type && normalizeType(head.type);
+  const declaredAllowed = !declared || !mimeTypes || matchesType(declared, mimeTypes);
+  if (!declaredAllowed) report("file.type", "fileType", { options: mimeTypes });
+
+  const sniffed = head.bytes && sniffFile(head.bytes);
+  let typeMatches = declaredAllowed;
+  if (sniffed) {
+    if (declared && declared !== "application/octet-stream" && declared !== sniffed.mimeType) {
+      typeMatches = false;
+      report("file.content", "fileContent");
+    } else if (mimeTypes && declaredAllowed && !matchesType(sniffed.mimeType, mimeTypes)) {
+      typeMatches = false;
+      report("file.type", "fileType", { options: mimeTypes });
+    }
+    if (extension && !sniffed.extensions.includes(extension))
+      report("file.extension_mismatch", "fileExtensionMismatch", { extension });
+  } else if (isImage || (mimeTypes && mimeTypes.every((type) => SNIFFABLE.includes(normalizeType(type))))) {
+    // only listed types that can be recognised are accepted, and this one was not
+    return report("file.content", "fileContent");
+  }
+
+  if (!isImage || !sniffed || !typeMatches) return;
+  const { width, height } = sniffed;
+  if (!width || !height) return report("image.dimensions", "imageDimensions");
+  if (options.maxWidth !== undefined && width > options.maxWidth)
+    report("image.width", "imageWidth", { max: options.maxWidth });
+  if (options.maxHeight !== undefined && height > options.maxHeight)
+    report("image.height", "imageHeight", { max: options.maxHeight });
+  if (options.aspectRatio !== undefined) {
+    const expected = parseRatio(options.aspectRatio);
+    const tolerance = options.aspectRatioTolerance ?? 0.01;
+    if (Math.abs(width / height - expected) > expected * tolerance)
+      report("image.aspect_ratio", "imageAspectRatio", { ratio: String(options.aspectRatio) });
+  }
+};
+
+const fileSchema = (options: ImageOptions, isImage: boolean) => {
+  const label = options.label ?? (isImage ? "Image" : "File");
+  const messages = toMessages(options.messages);
+  return z
+    .custom<FileInput>(
+      (value) => isFileInput(value) && (options.allowDiskPath === true || !isDiskDescriptor(value)),
+      (value: unknown) =>
+        value === undefined
+          ? { message: messages.required || translate("required", { label }), params: { code: "required" } }
+          : { message: messages.invalid || translate("file", { label }), params: { code: "file.invalid" } }
+    )
+    .superRefine((value, ctx) => {
+      const head = readHead(value);
+      return head instanceof Promise
+        ? head.then((resolved) => checkFile(resolved, options, ctx, isImage))
+        : checkFile(head, options, ctx, isImage);
+    });
+};
+
+/* ---------------------------------------
+ * Fragments
+ * ------------------------------------- */
+
+/**
+ * Uploaded file: size, allowed MIME types and extensions, and the declared
+ * type / extension checked against the magic bytes. The value is returned as given.
+ */
+export const file = (options: FileOptions = {}) =>
+  withMeta(fileSchema(options, false), {
+    kind: "file",
+    label: options.label ?? "File",
+    messages: options.messages,
+    constraints: {
+      maxSize: options.maxSize,
+      mimeTypes: options.mimeTypes,
+      extensions: options.extensions,
+    },
+    jsonSchema: { type: "string", format: "binary" },
+  });
+
+/** `file` limited to PNG, JPEG, WebP and GIF by default, plus dimension and aspect-ratio checks */
+export const image = (options: ImageOptions = {}) => {
+  // a bad ratio fails here rather than rejecting every upload
+  if (options.aspectRatio !== undefined) parseRatio(options.aspectRatio);
+  const resolved = { ...options, mimeTypes: options.mimeTypes ?? IMAGE_MIME_TYPES };
+  return withMeta(fileSchema(resolved, true), {
+    kind: "image",
+    label: options.label ?? "Image",
+    messages: options.messages,
+    constraints: {
+      maxSize: options.maxSize,
+      mimeTypes: resolved.mimeTypes,
+      extensions: options.extensions,
+      maxWidth: options.maxWidth,
+      maxHeight: options.maxHeight,
+      aspectRatio: options.aspectRatio,
+    },
+    jsonSchema: { type: "string", format: "binary" },
+  });
+};
+
+/** Several uploads (multer `req.files`, `formData.getAll(...)`) with count and total size limits */
+export const fileArray = <T extends z.ZodTypeAny>(schema: T, options: FileArrayOptions = {}) => {
+  const label = options.label ?? "Files";
+  const messages = toMessages(options.messages);
+  let array = z.array(schema, {
+    errorMap: fragmentErrorMap({
+      required: () => messages.required || translate("required", { label }),
+      invalid: () => messages.invalid || translate("fileList", { label }),
+      validation: (issue) =>
+        issue.code === z.ZodIssueCode.too_small
+          ? translate("arrayMin", { label, min: Number(issue.minimum) })
+          : issue.code === z.ZodIssueCode.too_big
+            ? translate("fileCount", { label, max: Number(issue.maximum) })
+            : undefined,
+    }),
+  });
+  if (options.minCount !== undefined) array = array.min(options.minCount);
+  if (options.maxCount !== undefined) array = array.max(options.maxCount);
+  const refined = array.superRefine((files, ctx) => {
+    if (options.maxTotalSize === undefined) return;
+    const total = files.reduce((sum: number, item) => sum + (isFileInput(item) ? fileSize(item) : 0), 0);
+    if (total > options.maxTotalSize)
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: translate("fileTotalSize", { label, max: formatFileSize(options.maxTotalSize) }),
+        params: { code: "file.total_size" },
+      });
+  });
+  return withMeta(refined, {
+    kind: "fileArray",
+    label,
+    messages: options.messages,
+    constraints: {
+      minCount: options.minCount,
+      maxCount: options.maxCount,
+      maxTotalSize: options.maxTotalSize,
+    },
+  });
+};
@@ -0,0 +1,292 @@
+// src/url.ts
+/* ---------------------------------------
+ * URL / host policy: IDN -> punycode, private-network (SSRF) checks,
+ * host allow/deny lists and a compact public-suffix list.
+ * Hosts are checked as written; DNS answers are not (see isPrivateAddress).
+ * ------------------------------------- */
+
+/* ---------------------------------------
+ * IP addresses
+ * ------------------------------------- */
+
+/** IPv4 in any form browsers accept ("127.1", "0x7f000001", "0177.0.0.1", "2130706433") */
+export const parseIPv4 = (input: string): number | undefined => {
+  const parts = input.split(".");
+  if (parts.length > 1 && parts[parts.length - 1] === "") parts.pop();
+  if (parts.length > 4) return undefined;
+  const numbers = parts.map((part) => {
+    if (/^0x[\da-f]*$/i.test(part)) return parseInt(part.slice(2) || "0", 16);
+    if (/^0[0-7]*$/.test(part)) return parseInt(part, 8);
+    return /^[1-9]\d*$/.test(part) ? Number(part) : NaN;
+  });
+  if (numbers.some((n) => Number.isNaN(n))) return undefined;
+  const last = numbers.pop() as number;
+  if (numbers.some((n) => n > 255) || last >= 256 ** (4 - numbers.length)) return undefined;
+  return numbers.reduce((sum, n, i) => sum + n * 256 ** (3 - i), last);
+};
+
+/** IPv6 (brackets optional, embedded dotted IPv4 allowed) -> eight 16-bit groups */
+export const parseIPv6 = (input: string): number[] | undefined => {
+  let text = input.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (!/^[\da-f:.]+$/.test(text) || !text.includes(":")) return undefined;
+  const dotted = /(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(text);
+  if (dotted) {
+    const bytes = dotted.slice(1).map(Number);
+    if (bytes.some((b) => b > 255)) return undefined;
+    const hex = (hi: number, lo: number) => ((hi << 8) | lo).toString(16);
+    text = `${text.slice(0, dotted.index)}${hex(bytes[0], bytes[1])}:${hex(bytes[2], bytes[3])}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return undefined;
+  const groupsOf = (part: string) => (part === "" ? [] : part.split(":"));
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some((group) => !/^[\da-f]{1,4}$/.test(group))) return undefined;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+// [network, prefix length]: "this" network, RFC 1918, CGNAT (incl. 100.100.100.200 metadata),
+// loopback, link-local (incl. 169.254.169.254 metadata), IETF, TEST-NETs, benchmarking,
+// multicast and reserved
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const NON_PUBLIC_IPV4_RANGES = NON_PUBLIC_IPV4.map(([network, bits]) => {
+  const size = 2 ** (32 - bits);
+  return { start: Math.floor((parseIPv4(network) as number) / size), size };
+});
+
+const isNonPublicIPv4 = (ip: number) =>
+  NON_PUBLIC_IPV4_RANGES.some(({ start, size }) => Math.floor(ip / size) === start);
+
+const ipv4Of = (hi: number, lo: number) => hi * 65536 + lo;
+
+const isNonPublicIPv6 = (g: number[]) => {
+  const zeros = (from: number, to: number) => g.slice(from, to).every((n) => n === 0);
+  // ::, ::1 and IPv4-compatible ::a.b.c.d
+  if (zeros(0, 6)) return isNonPublicIPv4(ipv4Of(g[6], g[7]));
+  // IPv4-mapped ::ffff:a.b.c.d
+  if (zeros(0, 5) && g[5] === 0xffff) return isNonPublicIPv4(ipv4Of(g[6], g[7]));
+  // NAT64 64:ff9b::a.b.c.d and its local-use 64:ff9b:1::/48
+  if (g[0] === 0x64 && g[1] === 0xff9b)
+    return g[2] === 1 || !zeros(2, 6) || isNonPublicIPv4(ipv4Of(g[6], g[7]));
+  // 6to4 2002:AABB:CCDD::
+  if (g[0] === 0x2002) return isNonPublicIPv4(ipv4Of(g[1], g[2]));
+  // Teredo 2001:0::/32 carries the client address inverted
+  if (g[0] === 0x2001 && g[1] === 0) return isNonPublicIPv4(ipv4Of(g[6] ^ 0xffff, g[7] ^ 0xffff));
+  // documentation 2001:db8::/32
+  if (g[0] === 0x2001 && g[1] === 0xdb8) return true;
+  // unique local fc00::/7 (incl. fd00:ec2::254 metadata), link-local fe80::/10,
+  // site-local fec0::/10, multicast ff00::/8
+  return (g[0] & 0xfe00) === 0xfc00 || (g[0] & 0xffc0) >= 0xfe80;
+};
+
+/**
+ * True for loopback, private, link-local, cloud-metadata and other
+ * non-public addresses. Use it on resolved addresses too: a public
+ * hostname can still resolve to a private IP.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const v6 = parseIPv6(address);
+  if (v6) return isNonPublicIPv6(v6);
+  const v4 = parseIPv4(address);
+  return v4 !== undefined && isNonPublicIPv4(v4);
+};
+
+// intranet names that never resolve publicly
+const LOCAL_SUFFIXES = ["localhost", "local", "localdomain", "internal", "intranet", "lan", "home.arpa"];
+
+const isLocalHostname = (host: string) =>
+  !host.includes(".") || LOCAL_SUFFIXES.some((suffix) => host === suffix || host.endsWith(`.${suffix}`));
+
+/* ---------------------------------------
+ * Hosts, IDN & public suffixes
+ * ------------------------------------- */
+
+/** "Bücher.DE" -> "xn--bcher-kva.de"; undefined when it isn't a valid host */
+export const toAsciiHost = (host: string): string | undefined => {
+  if (!host || /[\s/?#@\\%]/.test(host)) return undefined;
+  try {
+    return new URL(`http://${host}/`).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+// multi-label suffixes; any single TLD is a suffix as well (the "*" rule of the PSL)
+const PUBLIC_SUFFIXES = new Set([
+  "co.in", "net.in", "org.in", "firm.in", "gen.in", "ind.in", "ac.in", "edu.in", "res.in", "gov.in", "mil.in", "nic.in",
+  "co.uk", "org.uk", "me.uk", "ltd.uk", "plc.uk", "net.uk", "ac.uk", "gov.uk", "nhs.uk", "sch.uk",
+  "co.ae", "net.ae", "org.ae", "ac.ae", "gov.ae",
+  "com.sa", "net.sa", "org.sa", "edu.sa", "gov.sa",
+  "com.sg", "net.sg", "org.sg", "edu.sg", "gov.sg",
+  "com.au", "net.au", "org.au", "edu.au", "gov.au", "id.au",
+  "co.nz", "net.nz", "org.nz", "ac.nz", "govt.nz",
+  "com.br", "com.cn", "com.hk", "com.my", "com.pk", "com.bd", "com.np", "com.lk",
+  "co.jp", "ne.jp", "or.jp", "co.kr", "co.za", "co.ke", "com.ng", "com.mx", "com.tr",
+  // hosting platforms whose subdomains belong to different owners
+  "github.io", "gitlab.io", "herokuapp.com", "vercel.app", "netlify.app", "pages.dev", "workers.dev",
+  "web.app", "firebaseapp.com", "appspot.com", "blogspot.com", "azurewebsites.net",
+  "cloudfront.net", "s3.amazonaws.com", "onrender.com", "fly.dev",
+]);
+
+/** Add suffixes (e.g. your own multi-tenant domain) to the bundled list */
+export const registerPublicSuffixes = (suffixes: readonly string[]) => {
+  for (const suffix of suffixes) PUBLIC_SUFFIXES.add(toAsciiHost(suffix) ?? suffix.toLowerCase());
+};
+
+/** Longest known suffix of an ASCII host: "shop.example.co.in" -> "co.in" */
+export const publicSuffix = (host: string) => {
+  const labels = host.replace(/\.$/, "").split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (PUBLIC_SUFFIXES.has(candidate)) return candidate;
+  }
+  return labels[labels.length - 1];
+};
+
+/** Suffix plus one label: "shop.example.co.in" -> "example.co.in"; undefined for a bare suffix */
+export const registrableDomain = (host: string) => {
+  const bare = host.replace(/\.$/, "");
+  const suffix = publicSuffix(bare);
+  if (bare === suffix) return undefined;
+  const labels = bare.slice(0, -suffix.length - 1).split(".");
+  return `${labels[labels.length - 1]}.${suffix}`;
+};
+
+export interface DomainDetails {
+  /** ASCII (punycode) form: "xn--bcher-kva.de" */
+  domain: string;
+  suffix: string;
+  /** Undefined when the domain is itself a public suffix */
+  registrable?: string;
+  subdomain?: string;
+}
+
+export type DomainParseResult =
+  | { success: true; data: DomainDetails }
+  | { success: false; reason: "format" | "suffix" };
+
+const HOSTNAME =
+  /^(?=.{1,253}$)(?:[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?\.)+(?:[a-z]{2,63}|xn--[a-z\d-]{1,59})$/;
+
+/** Hostname with IDN support; `allowPublicSuffix` accepts bare suffixes like "co.uk" */
+export const parseDomain = (
+  input: string,
+  options: { allowPublicSuffix?: boolean } = {}
+): DomainParseResult => {
+  const ascii = toAsciiHost(input.trim().replace(/\.$/, ""));
+  if (!ascii || !HOSTNAME.test(ascii)) return { success: false, reason: "format" };
+  const suffix = publicSuffix(ascii);
+  const registrable = registrableDomain(ascii);
+  if (!registrable && !options.allowPublicSuffix) return { success: false, reason: "suffix" };
+  const subdomain =
+    registrable && ascii !== registrable ? ascii.slice(0, -registrable.length - 1) : undefined;
+  return { success: true, data: { domain: ascii, suffix, registrable, subdomain } };
+};
+
+/* ---------------------------------------
+ * URLs
+ * ------------------------------------- */
+
+/** Query parameters removed by `stripTracking` */
+export const TRACKING_PARAMS: readonly (string | RegExp)[] = [
+  /^utm_/i,
+  "fbclid",
+  "gclid",
+  "msclkid",
+  "mc_eid",
+  "igshid",
+];
+
+export const stripTrackingParams = (url: URL) => {
+  const result = new URL(url.href);
+  for (const key of Array.from(url.searchParams.keys()))
+    if (TRACKING_PARAMS.some((p) => (typeof p === "string" ? p === key : p.test(key))))
+      result.searchParams.delete(key);
+  return result;
+};
+
+export interface UrlPolicy {
+  /** Schemes without ":" (default ["https", "http"]) */
+  protocols?: readonly string[];
+  /** "example.com" matches that host, "*.example.com" its subdomains */
+  allowHosts?: readonly string[];
+  denyHosts?: readonly string[];
+  /** Accept loopback/private/link-local/metadata addresses and intranet names (default false) */
+  allowPrivateNetworks?: boolean;
+  /** Accept "user:pass@" (default false) */
+  allowCredentials?: boolean;
+  /** Default 2048 */
+  maxLength?: number;
+  /** Remove utm_* and other click-tracking parameters */
+  stripTracking?: boolean;
+}
+
+export type UrlParseResult =
+  | { success: true; data: URL }
+  | {
+      success: false;
+      reason: "format" | "length" | "protocol" | "credentials" | "host" | "private";
+    };
+
+const hostMatches = (host: string, pattern: string) => {
+  const wildcard = pattern.startsWith("*.");
+  const ascii = toAsciiHost(wildcard ? pattern.slice(2) : pattern) ?? pattern.toLowerCase();
+  return wildcard ? host.endsWith(`.${ascii}`) : host === ascii;
+};
+
+/**
+ * Parse with the WHATWG URL parser (so "http://0x7f.1" is seen as
+ * 127.0.0.1 and IDN hosts as punycode) and apply `policy`.
+ */
+export const parseUrl = (input: string, policy: UrlPolicy = {}): UrlParseResult => {
+  const text = input.trim();
+  if (text.length > (policy.maxLength ?? 2048)) return { success: false, reason: "length" };
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return { success: false, reason: "format" };
+  }
+
+  const protocols = (policy.protocols ?? ["https", "http"]).map((p) => p.toLowerCase());
+  if (!protocols.includes(url.protocol.slice(0, -1))) return { success: false, reason: "protocol" };
+  if ((url.username || url.password) && !policy.allowCredentials)
+    return { success: false, reason: "credentials" };
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+  if (host) {
+    if (policy.denyHosts?.some((pattern) => hostMatches(host, pattern)))
+      return { success: false, reason: "host" };
+    if (policy.allowHosts && !policy.allowHosts.some((pattern) => hostMatches(host, pattern)))
+      return { success: false, reason: "host" };
+    const ip = parseIPv6(host) !== undefined || parseIPv4(host) !== undefined;
+    if (
+      !policy.allowPrivateNetworks &&
+      (ip ? isPrivateAddress(host) : isLocalHostname(host))
+    )
+      return { success: false, reason: "private" };
+  } else if (["http:", "https:", "ftp:", "ws:", "wss:"].includes(url.protocol)) {
+    return { success: false, reason: "format" };
+  }
+
+  return { success: true, data: policy.stripTracking ? stripTrackingParams(url) : url };
+};
@@ -0,0 +1,23 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { money, parseAmount } = require("../dist");
+
+const code = (result) => (result.success ? undefined : result.error.issues[0].params?.code);
+
+test("money parses grouped amounts with the currency's own symbol or code", () => {
+  assert.equal(money("Price").parse("₹1,23,456.78"), 123456.78);
+  assert.equal(money("Price").parse("Rs. 500"), 500);
+  assert.equal(money("Price", undefined, { currency: "USD" }).parse("$1,000.50"), 1000.5);
+  assert.equal(money("Price", undefined, { currency: "EUR", decimalSeparator: "," }).parse("€1.234,5"), 1234.5);
+});
+
+test("money rejects a symbol or code of another currency", () => {
+  assert.equal(code(money("Price").safeParse("$100")), "money.format");
+  assert.equal(code(money("Price").safeParse("USD 100")), "money.format");
+  assert.equal(code(money("Price", undefined, { currency: "EUR" }).safeParse("£5")), "money.format");
+});
+
+test("parseAmount without a currency ignores symbols", () => {
+  assert.equal(parseAmount("$100", { minorUnits: 2 }), 10000);
+  assert.equal(parseAmount("1.005", { minorUnits: 2 }), 101);
+});
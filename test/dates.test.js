@@ -0,0 +1,26 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { dateRange, buildDateRange, generate, generateInvalid } = require("../dist");
+
+test("dateRange reports the order on end", () => {
+  const result = dateRange.safeParse({ start: "2024-01-02T00:00:00Z", end: "2024-01-01T00:00:00+05:30" });
+  assert.deepEqual(
+    result.error.issues.map((issue) => [issue.path, issue.params.code]),
+    [[["end"], "date_range.order"]]
+  );
+  assert.equal(dateRange.safeParse({ start: "2024-01-01T00:00:00Z", end: "2024-01-01T00:00:00Z" }).success, true);
+});
+
+test("buildDateRange checks the span and exclusive ends", () => {
+  const stay = buildDateRange({ type: "date", maxSpan: "30d", inclusive: false });
+  const codes = (value) => stay.safeParse(value).error?.issues.map((issue) => issue.params.code);
+  assert.deepEqual(codes({ start: "2024-01-01", end: "2024-03-01" }), ["date_range.span"]);
+  assert.deepEqual(codes({ start: "2024-01-01", end: "2024-01-01" }), ["date_range.order"]);
+  assert.equal(codes({ start: "2024-01-01", end: "2024-01-10" }), undefined);
+});
+
+test("generated date ranges are valid, and invalid examples fail", () => {
+  assert.equal(dateRange.safeParse(generate(dateRange, { seed: 7 })).success, true);
+  for (const example of generateInvalid(dateRange, { seed: 7 }))
+    assert.equal(dateRange.safeParse(example.input).success, false);
+});
@@ -0,0 +1,36 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { uuid, slug, Enum, withIssueCode, issueCode, nestErrors } = require("../dist");
+
+const codes = (schema, value) => {
+  const result = schema.safeParse(value);
+  return result.success ? [] : result.error.issues.map(issueCode);
+};
+
+test("fragment format failures carry their own codes", () => {
+  assert.deepEqual(codes(uuid(), "x"), ["uuid.format"]);
+  assert.deepEqual(codes(slug(), "Not a slug"), ["slug.format"]);
+  assert.deepEqual(codes(Enum(["a", "b"]), "c"), ["enum.option"]);
+  assert.deepEqual(codes(withIssueCode(z.string().regex(/^SKU-\d+$/), "sku.format"), "x"), ["sku.format"]);
+});
+
+test("codes survive chained checks", () => {
+  assert.deepEqual(codes(uuid().min(1), "x"), ["uuid.format"]);
+  assert.deepEqual(codes(slug().unwrap().max(80), "A B"), ["slug.format"]);
+  assert.deepEqual(codes(slug().unwrap().trim().max(3), "abcd"), ["string.max"]);
+  assert.deepEqual(codes(slug().unwrap().email(), "abc"), ["email.format"]);
+  assert.deepEqual(codes(Enum(["a", "b", "c"]).extract(["a"]), "b"), ["enum.option"]);
+  assert.deepEqual(codes(Enum(["a", "b", "c"]).exclude(["a"]), "a"), ["enum.option"]);
+});
+
+test("wrong types keep their derived codes", () => {
+  assert.deepEqual(codes(z.object({ id: uuid() }), { id: 5 }), ["string.type"]);
+  assert.deepEqual(codes(withIssueCode(z.string(), "x.format"), undefined), ["required"]);
+  assert.throws(() => withIssueCode(z.number(), "n.format"), TypeError);
+});
+
+test("nestErrors groups messages by path", () => {
+  const result = z.object({ address: z.object({ pin: z.string().min(6, "short") }) }).safeParse({ address: { pin: "1" } });
+  assert.deepEqual(nestErrors(result.error), { address: { pin: "short" } });
+});
@@ -0,0 +1,50 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { createFragments, file } = require("../dist");
+
+test("config.messages gets the built-in label of each fragment", () => {
+  const seen = [];
+  const f = createFragments({
+    messages: ({ kind, label }) => {
+      seen.push([kind, label]);
+      return undefined;
+    },
+  });
+  seen.length = 0; // the factory builds `title` and `seoFields` itself
+  f.uuid();
+  f.pinCode();
+  f.requiredString();
+  f.password();
+  f.fileArray(file());
+  f.slug("Handle");
+  assert.deepEqual(seen, [
+    ["uuid", "ID"],
+    ["pinCode", "PIN Code"],
+    ["requiredString", "This field"],
+    ["password", "Password"],
+    ["fileArray", "Files"],
+    ["slug", "Handle"],
+  ]);
+});
+
+test("config labels and messages reach the fragments", () => {
+  const f = createFragments({
+    trim: true,
+    labels: { fileArray: "Documents" },
+    messages: ({ kind, label }) => (kind === "fileArray" ? { invalid: `${label} must be a list` } : undefined),
+  });
+  assert.equal(f.fileArray(file()).safeParse("x").error.issues[0].message, "Documents must be a list");
+  assert.equal(f.requiredString("Name").parse("  Kettle "), "Kettle");
+});
+
+test("a custom slugPattern gets the generic message", () => {
+  const f = createFragments({ slugPattern: /^[a-z_]+$/ });
+  assert.equal(f.slug().parse("a_b"), "a_b");
+  assert.equal(f.slug().safeParse("a-b").error.issues[0].message, "Slug is not in a valid format");
+  assert.equal(
+    createFragments().slug().safeParse("A").error.issues[0].message,
+    "Slug must contain only lowercase letters, numbers and hyphens"
+  );
+  assert.ok(z.object({ s: f.slug() }).safeParse({}).success);
+});
@@ -0,0 +1,30 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { fromFormData, parseFormBody, MAX_FORM_INDEX } = require("../dist");
+
+test("parseFormBody nests brackets, dots and repeated keys", () => {
+  assert.deepEqual(parseFormBody("tags[]=a&tags[]=b&address[city]=Pune&items[0].qty=2&x=1&x=2"), {
+    tags: ["a", "b"],
+    address: { city: "Pune" },
+    items: [{ qty: "2" }],
+    x: ["1", "2"],
+  });
+});
+
+test("indices above MAX_FORM_INDEX don't allocate sparse arrays", () => {
+  assert.deepEqual(parseFormBody("items[10000000]=x"), { items: { 10000000: "x" } });
+  assert.deepEqual(parseFormBody(`items[0]=a&items[${MAX_FORM_INDEX + 1}]=b`), { items: ["a"] });
+  assert.equal(parseFormBody(`items[${MAX_FORM_INDEX}]=a`).items.length, MAX_FORM_INDEX + 1);
+
+  const schema = fromFormData(z.object({ items: z.array(z.string()).max(5) }));
+  const result = schema.safeParse("items[10000000]=x");
+  assert.equal(result.success, false);
+  assert.equal(result.error.issues.length, 1);
+  assert.equal(result.error.issues[0].path[0], "items");
+});
+
+test("prototype keys are dropped", () => {
+  assert.deepEqual(parseFormBody("__proto__[admin]=1&a[constructor]=x"), {});
+  assert.equal({}.admin, undefined);
+});
@@ -0,0 +1,21 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { pinCode, toJsonSchema, formAdapter, generate } = require("../dist");
+
+test("pinCode strips separators and checks the region", () => {
+  assert.equal(pinCode().parse("560 001"), "560001");
+  assert.equal(pinCode().parse("560-001"), "560001");
+  assert.equal(pinCode().safeParse("960001").success, false);
+});
+
+test("the published pattern accepts what pinCode accepts", () => {
+  const pattern = new RegExp(toJsonSchema(pinCode()).pattern, "v");
+  for (const value of ["560001", "560 001", "560-001", " 560 001 "]) {
+    assert.equal(pinCode().safeParse(value).success, true);
+    assert.equal(pattern.test(value), true, value);
+  }
+  for (const value of ["56000", "5600011", "56OO01"]) assert.equal(pattern.test(value), false, value);
+  assert.equal(formAdapter(z.object({ pin: pinCode() })).fields.pin.props.pattern, pattern.source);
+  assert.equal(pattern.test(generate(pinCode(), { seed: 3 })), true);
+});
@@ -0,0 +1,89 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const {
+  slug,
+  requiredString,
+  checkUnique,
+  checkExists,
+  memoryLookup,
+  toJsonSchema,
+  describeSchema,
+  formAdapter,
+} = require("../dist");
+
+const codes = (result) => (result.success ? [] : result.error.issues.map((issue) => issue.params?.code));
+
+test("unique and exists report lookup.taken / lookup.not_found", async () => {
+  const taken = memoryLookup(["admin"]);
+  assert.deepEqual(codes(await checkUnique(requiredString("Username"), taken).safeParseAsync("admin")), ["lookup.taken"]);
+  assert.equal((await checkUnique(requiredString("Username"), taken).safeParseAsync("asha")).success, true);
+  const found = memoryLookup(["pune"]);
+  assert.deepEqual(codes(await checkExists(requiredString("City"), found).safeParseAsync("goa")), ["lookup.not_found"]);
+});
+
+test("lookups of one parse are batched into one call", async () => {
+  const lookup = memoryLookup(["b"]);
+  const schema = z.array(checkUnique(requiredString("Tag"), lookup));
+  const result = await schema.safeParseAsync(["a", "b", "c", "a"]);
+  assert.deepEqual(result.error.issues.map((issue) => issue.path), [[1]]);
+  assert.deepEqual(lookup.calls, [["a", "b", "c"]]);
+
+  const single = memoryLookup();
+  await z.array(checkUnique(requiredString("Tag"), single, { batch: false })).parseAsync(["a", "b"]);
+  assert.deepEqual(single.calls, [["a"], ["b"]]);
+});
+
+test("batches and memoized results stay within one parse", async () => {
+  const lookup = memoryLookup();
+  const schema = z.array(checkUnique(requiredString("Tag"), lookup, { memoize: true, batch: false }));
+  await Promise.all([schema.parseAsync(["a", "a"]), schema.parseAsync(["a"])]);
+  assert.deepEqual(lookup.calls, [["a"], ["a"]]);
+
+  const batched = memoryLookup();
+  const field = checkUnique(requiredString("Tag"), batched);
+  await Promise.all([field.parseAsync("a"), field.parseAsync("b")]);
+  assert.deepEqual(batched.calls, [["a"], ["b"]]);
+
+  // a later parse looks the value up again
+  await schema.parseAsync(["a"]);
+  assert.equal(lookup.calls.length, 3);
+});
+
+test("a slow lookup is aborted and reported as lookup.timeout", async () => {
+  let signal;
+  const slow = (values, context) => {
+    signal = context.signal;
+    return new Promise(() => {});
+  };
+  const result = await checkUnique(requiredString("Username"), slow, { timeout: 10 }).safeParseAsync("asha");
+  assert.deepEqual(codes(result), ["lookup.timeout"]);
+  assert.equal(signal.aborted, true);
+});
+
+test("an outer signal rejects the parse", async () => {
+  const controller = new AbortController();
+  controller.abort(new Error("client went away"));
+  const schema = checkUnique(requiredString("Username"), memoryLookup(), { signal: controller.signal });
+  await assert.rejects(schema.safeParseAsync("asha"), /client went away/);
+
+  const later = new AbortController();
+  const pending = checkUnique(requiredString("Username"), () => new Promise(() => {}), {
+    signal: () => later.signal,
+  }).safeParseAsync("asha");
+  setTimeout(() => later.abort(new Error("cancelled")), 5);
+  await assert.rejects(pending, /cancelled/);
+});
+
+test("empty values are not looked up and introspection works", async () => {
+  const lookup = memoryLookup();
+  const handle = slug("Handle").unique(lookup);
+  const form = z.object({ handle });
+  assert.equal(handle.isOptional(), true);
+  assert.equal(form.safeParse({}).success, true);
+  assert.equal((await form.safeParseAsync({ handle: undefined })).success, true);
+  assert.deepEqual(lookup.calls, []);
+  assert.doesNotThrow(() => toJsonSchema(form));
+  assert.equal(describeSchema(form)[0].required, false);
+  assert.equal(formAdapter(form).fields.handle.props.required, false);
+});
@@ -0,0 +1,126 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { validate, withValidation, validateRequest, requiredString, requiredNumber, uuid } = require("../dist");
+
+const ORG = "3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b";
+
+// the parts of an Express request / response the middleware touches
+const mockRequest = (parts) => ({ params: {}, query: {}, headers: {}, ...parts });
+const mockResponse = () => {
+  const res = { statusCode: 200, headers: {}, body: undefined };
+  res.setHeader = (name, value) => (res.headers[name.toLowerCase()] = value);
+  res.end = (body) => (res.body = body);
+  return res;
+};
+const run = (middleware, req) =>
+  new Promise((resolve) => {
+    const res = mockResponse();
+    const done = (error) => resolve({ res, error, nextCalled: true });
+    const end = res.end;
+    res.end = (body) => {
+      end(body);
+      resolve({ res, nextCalled: false });
+    };
+    middleware(req, res, done);
+  });
+
+const createUser = validate({
+  params: z.object({ orgId: uuid("Organisation ID") }),
+  query: z.object({ page: requiredNumber("Page").optional() }),
+  body: z.object({ name: requiredString("Name") }),
+});
+
+test("validate stores the coerced parts on req.validated", async () => {
+  const req = mockRequest({ params: { orgId: ORG }, query: { page: "2" }, body: { name: "Asha" } });
+  const { nextCalled, error } = await run(createUser, req);
+  assert.equal(nextCalled, true);
+  assert.equal(error, undefined);
+  assert.deepEqual(createUser.get(req), { params: { orgId: ORG }, query: { page: 2 }, body: { name: "Asha" } });
+});
+
+test("validate answers 400 with problem details keyed by location", async () => {
+  const { res, nextCalled } = await run(createUser, mockRequest({ params: { orgId: "x" }, body: {} }));
+  assert.equal(nextCalled, false);
+  assert.equal(res.statusCode, 400);
+  assert.equal(res.headers["content-type"], "application/problem+json");
+  const problem = JSON.parse(res.body);
+  assert.deepEqual(
+    problem.errors.map((error) => error.field),
+    ["params.orgId", "body.name"]
+  );
+});
+
+test("validate passes errors thrown by async checks to next", async () => {
+  const failing = validate({
+    body: z.object({ name: z.string().refine(async () => Promise.reject(new Error("db down"))) }),
+  });
+  const { nextCalled, error } = await run(failing, mockRequest({ body: { name: "x" } }));
+  assert.equal(nextCalled, true);
+  assert.equal(error.message, "db down");
+});
+
+test("a huge query index is a single issue, not a huge array", async () => {
+  const result = await validateRequest(
+    { query: z.object({ items: z.array(z.string()).max(5) }) },
+    { query: new URLSearchParams("items[10000000]=x") }
+  );
+  assert.equal(result.success, false);
+  assert.equal(result.error.issues.length, 1);
+});
+
+const handler = withValidation(
+  {
+    params: z.object({ slug: requiredString("Slug") }),
+    query: z.object({ page: requiredNumber("Page").optional() }),
+    body: z.object({ name: requiredString("Name"), qty: requiredNumber("Quantity") }),
+  },
+  (validated) => Response.json(validated)
+);
+
+test("withValidation reads JSON bodies, the query and params", async () => {
+  const response = await handler(
+    new Request("http://test/cart?page=3", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "Mango", qty: 2 }),
+    }),
+    { params: Promise.resolve({ slug: "cart-1" }) }
+  );
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), {
+    params: { slug: "cart-1" },
+    query: { page: 3 },
+    body: { name: "Mango", qty: 2 },
+  });
+});
+
+test("withValidation coerces form bodies", async () => {
+  const response = await handler(
+    new Request("http://test/cart", {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: "name=Mango&qty=2",
+    }),
+    { params: { slug: "cart-1" } }
+  );
+  assert.equal(response.status, 200);
+  assert.deepEqual((await response.json()).body, { name: "Mango", qty: 2 });
+});
+
+test("withValidation answers 400 for bodies that can't be parsed", async () => {
+  const json = await handler(
+    new Request("http://test/cart", { method: "POST", headers: { "content-type": "application/json" }, body: "{bad" }),
+    { params: { slug: "cart-1" } }
+  );
+  assert.equal(json.status, 400);
+  assert.equal(json.headers.get("content-type"), "application/problem+json");
+  assert.deepEqual((await json.json()).errors.map((error) => error.code), ["body.json"]);
+
+  const form = await handler(
+    new Request("http://test/cart", { method: "POST", headers: { "content-type": "multipart/form-data" }, body: "x" }),
+    { params: { slug: "cart-1" } }
+  );
+  assert.equal(form.status, 400);
+  assert.deepEqual((await form.json()).errors.map((error) => error.code), ["body.form"]);
+});
@@ -0,0 +1,44 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { z } = require("zod");
+const { toPatchSchema, requiredString, requiredNumber, slug, memoryLookup, toJsonSchema } = require("../dist");
+
+const codes = (result) => (result.success ? [] : result.error.issues.map((issue) => issue.params?.code ?? issue.code));
+
+test("fields become optional and defaults are dropped", () => {
+  const patch = toPatchSchema(
+    z.object({ name: requiredString("Name"), page: z.number().default(1), note: z.string().optional() }),
+    { nullable: ["note"] }
+  );
+  assert.deepEqual(patch.parse({}), {});
+  assert.deepEqual(patch.parse({ note: null }), { note: null });
+  assert.equal(patch.safeParse({ name: "" }).success, false);
+});
+
+const owner = z
+  .object({ handle: slug("Handle"), min: requiredNumber("Min"), max: requiredNumber("Max") })
+  .refine((value) => value.min <= value.max, { message: "min above max", path: ["max"] });
+
+test("deep patches run a nested refine only for complete values", () => {
+  const patch = toPatchSchema(z.object({ name: requiredString("Name"), owner }), { deep: true });
+  assert.equal(patch.safeParse({ owner: { min: 5 } }).success, true);
+  assert.deepEqual(patch.safeParse({ owner: { min: 5, max: 1 } }).error.issues[0].path, ["owner", "max"]);
+});
+
+test("deep patches keep async checks of nested refined objects", async () => {
+  const lookup = memoryLookup(["taken"]);
+  const withLookup = z
+    .object({ handle: slug("Handle").unique(lookup), min: requiredNumber("Min"), max: requiredNumber("Max") })
+    .refine((value) => value.min <= value.max);
+  const patch = toPatchSchema(z.object({ owner: withLookup }), { deep: true });
+
+  assert.doesNotThrow(() => toJsonSchema(patch));
+  assert.equal(patch.safeParse({ owner: { min: 1 } }).success, true);
+  assert.deepEqual(codes(await patch.safeParseAsync({ owner: { handle: "taken" } })), ["lookup.taken"]);
+  assert.deepEqual(codes(await patch.safeParseAsync({ owner: { handle: "taken", min: 1, max: 2 } })), [
+    "lookup.taken",
+  ]);
+  assert.deepEqual(await patch.parseAsync({ owner: { handle: "free", min: 1, max: 2 } }), {
+    owner: { handle: "free", min: 1, max: 2 },
+  });
+});
@@ -0,0 +1,41 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { buildListQueryParams, filterField, requiredString, requiredNumber, stringifyListQuery } = require("../dist");
+
+const listQuery = buildListQueryParams({
+  filters: {
+    city: filterField(requiredString("City"), ["eq", "in", "nin"]),
+    price: filterField(requiredNumber("Price"), ["gte", "between"]),
+  },
+  sortKeys: ["name", "created_at"],
+});
+
+test("parses filters, sort and pagination from a query string", () => {
+  const query = listQuery.parse("?page=2&sort=-created_at,name&filter[city][in]=Pune,Goa&filter[price][gte]=100");
+  assert.deepEqual(query.filters, [
+    { field: "city", op: "in", value: ["Pune", "Goa"] },
+    { field: "price", op: "gte", value: 100 },
+  ]);
+  assert.deepEqual(query.sort, [
+    { by: "created_at", order: "desc" },
+    { by: "name", order: "asc" },
+  ]);
+  assert.equal(query.page, 2);
+});
+
+test("list values with commas round-trip through stringify", () => {
+  const filters = [{ field: "city", op: "in", value: ["Pune, MH", "Goa"] }];
+  const text = stringifyListQuery({ filters });
+  assert.equal(text, "filter[city][in][]=Pune%2C%20MH&filter[city][in][]=Goa");
+  assert.deepEqual(listQuery.parse(text).filters, filters);
+
+  const single = [{ field: "city", op: "nin", value: ["Pune, MH"] }];
+  assert.deepEqual(listQuery.parse(stringifyListQuery({ filters: single })).filters, single);
+});
+
+test("comma-free lists keep the short form", () => {
+  const query = { filters: [{ field: "price", op: "between", value: [10, 20] }], sort: [{ by: "name", order: "asc" }] };
+  const text = listQuery.stringify(query);
+  assert.equal(text, "sort=name&filter[price][between]=10,20");
+  assert.deepEqual(listQuery.parse(text).filters, query.filters);
+});
@@ -0,0 +1,45 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const { file, image, isFileInput } = require("../dist");
+
+// 1x1 PNG header: signature, IHDR length and type, width 1, height 1
+const PNG = Uint8Array.from([
+  137, 80, 78, 71, 13, 10, 26, 10, 0, 0, 0, 13, 73, 72, 68, 82, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0,
+]);
+
+const codes = (result) => (result.success ? [] : result.error.issues.map((issue) => issue.params?.code));
+
+test("descriptors need a real buffer", () => {
+  const fake = { originalname: "x.png", size: 3, buffer: [137, 80, 78] };
+  assert.equal(isFileInput(fake), false);
+  assert.deepEqual(codes(image().safeParse(fake)), ["file.invalid"]);
+  assert.equal(image().safeParse({ originalname: "x.png", mimetype: "image/png", buffer: Buffer.from(PNG) }).success, true);
+});
+
+test("path descriptors are only read with allowDiskPath", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zf-upload-"));
+  const saved = path.join(dir, "upload.png");
+  fs.writeFileSync(saved, PNG);
+  try {
+    const descriptor = { originalname: "x.png", mimetype: "image/png", size: PNG.length, path: saved };
+    assert.deepEqual(codes(image().safeParse(descriptor)), ["file.invalid"]);
+    assert.deepEqual(codes(file().safeParse({ originalname: "x", size: 1, path: "/etc/passwd" })), ["file.invalid"]);
+    assert.equal(image({ allowDiskPath: true }).safeParse(descriptor).success, true);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("allowDiskPath reads regular files only", () => {
+  const result = file({ allowDiskPath: true, mimeTypes: ["image/png"] }).safeParse({
+    originalname: "x.png",
+    mimetype: "image/png",
+    size: 1,
+    path: os.tmpdir(),
+  });
+  // nothing is read, so the content can't be confirmed
+  assert.deepEqual(codes(result), ["file.content"]);
+});
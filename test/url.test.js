@@ -0,0 +1,18 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { url, httpsUrl, imageUrlStrict } = require("../dist");
+
+const code = (result) => (result.success ? undefined : result.error.issues[0].params?.code);
+
+test("url rejects private and local hosts unless allowed", () => {
+  assert.equal(code(url().safeParse("https://127.0.0.1/")), "url.private_network");
+  assert.equal(code(url().safeParse("https://2130706433/")), "url.private_network");
+  assert.equal(url({ allowPrivateNetworks: true }).safeParse("https://10.0.0.5/").success, true);
+});
+
+test("httpsUrl only checks the scheme", () => {
+  assert.equal(httpsUrl().safeParse("https://staging.internal/hook").success, true);
+  assert.equal(httpsUrl().safeParse("https://10.0.0.5/").success, true);
+  assert.equal(code(httpsUrl().safeParse("http://example.com/")), "url.protocol");
+  assert.equal(imageUrlStrict().safeParse("https://cdn.internal/a.png").success, true);
+});